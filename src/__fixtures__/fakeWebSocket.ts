@@ -0,0 +1,87 @@
+// In-memory stand-in for the global WebSocket, driven by the test instead of a server
+export class FakeWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+  static instances: FakeWebSocket[] = [];
+
+  readonly url: string;
+  readyState: number = FakeWebSocket.CONNECTING;
+  sent: any[] = [];
+  onopen: ((event: unknown) => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onclose: ((event: unknown) => void) | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+    FakeWebSocket.instances.push(this);
+  }
+
+  static install(): void {
+    FakeWebSocket.instances = [];
+    (globalThis as { WebSocket?: unknown }).WebSocket = FakeWebSocket;
+  }
+
+  static latest(): FakeWebSocket {
+    const socket = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+    if (!socket) {
+      throw new Error('No WebSocket was opened');
+    }
+    return socket;
+  }
+
+  send(data: string): void {
+    if (this.readyState !== FakeWebSocket.OPEN) {
+      throw new Error('Socket is not open');
+    }
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(): void {
+    this.drop();
+  }
+
+  // Test side: the server accepts the connection
+  open(): void {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.({});
+  }
+
+  // Test side: the server sends a message
+  receive(message: unknown): void {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  // Test side: the connection goes away
+  drop(): void {
+    if (this.readyState === FakeWebSocket.CLOSED) {
+      return;
+    }
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.({});
+  }
+
+  sentOfMethod(method: string): any[] {
+    return this.sent.filter((message) => message.method === method);
+  }
+}
+
+// Like the ws package, which can stop reading from the network
+export class PausableFakeWebSocket extends FakeWebSocket {
+  paused: boolean = false;
+
+  static install(): void {
+    FakeWebSocket.instances = [];
+    (globalThis as { WebSocket?: unknown }).WebSocket = PausableFakeWebSocket;
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+  }
+}
@@ -0,0 +1,142 @@
+import { FakeWebSocket } from '../__fixtures__/fakeWebSocket';
+import { WebSocketClient } from '../websocket/connection';
+import type { ConnectionState } from '../types';
+
+describe('WebSocketClient', () => {
+  let client: WebSocketClient;
+  let states: ConnectionState[];
+
+  function createClient(options = {}) {
+    client = new WebSocketClient(false, {
+      reconnect: { initialDelayMs: 1000, maxDelayMs: 4000, jitter: 0 },
+      pingIntervalMs: 1000,
+      pongTimeoutMs: 500,
+      ...options,
+    });
+    states = [];
+    client.on('stateChange', (state) => states.push(state));
+    return client;
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    FakeWebSocket.install();
+  });
+
+  afterEach(() => {
+    client.close();
+    jest.useRealTimers();
+  });
+
+  it('moves from connecting to open and back to closed', async () => {
+    createClient();
+    const connected = client.connect();
+    expect(client.getState()).toBe('connecting');
+    FakeWebSocket.latest().open();
+    await connected;
+    expect(client.isOpen()).toBe(true);
+
+    client.close();
+    expect(states).toEqual(['connecting', 'open', 'closed']);
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+  });
+
+  it('reconnects with exponential backoff after a drop', async () => {
+    createClient();
+    const reconnecting = jest.fn();
+    client.on('reconnecting', reconnecting);
+    const connected = client.connect();
+    FakeWebSocket.latest().open();
+    await connected;
+
+    FakeWebSocket.latest().drop();
+    expect(client.getState()).toBe('reconnecting');
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    FakeWebSocket.latest().drop();
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    await jest.advanceTimersByTimeAsync(1);
+    FakeWebSocket.latest().open();
+
+    expect(reconnecting.mock.calls).toEqual([
+      [1, 1000],
+      [2, 2000],
+    ]);
+    expect(client.getState()).toBe('open');
+  });
+
+  it('fails once the reconnect policy gives up', async () => {
+    createClient({
+      reconnect: { maxAttempts: 2, initialDelayMs: 100, jitter: 0 },
+    });
+    const gaveUp = jest.fn();
+    client.on('maxReconnectAttemptsReached', gaveUp);
+    const connected = client.connect();
+    const failure = connected.catch((error: Error) => error);
+
+    FakeWebSocket.latest().drop();
+    await jest.advanceTimersByTimeAsync(100);
+    FakeWebSocket.latest().drop();
+    await jest.advanceTimersByTimeAsync(200);
+    FakeWebSocket.latest().drop();
+
+    expect((await failure)?.message).toBe(
+      'WebSocket reconnect attempts exhausted'
+    );
+    expect(client.getState()).toBe('failed');
+    expect(gaveUp).toHaveBeenCalledTimes(1);
+  });
+
+  it('treats a connection without pongs as stalled and reconnects', async () => {
+    createClient();
+    const stalled = jest.fn();
+    client.on('stalled', stalled);
+    const connected = client.connect();
+    const socket = FakeWebSocket.latest();
+    socket.open();
+    await connected;
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(socket.sentOfMethod('ping')).toHaveLength(1);
+    socket.receive({ channel: 'pong' });
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(stalled).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(stalled).toHaveBeenCalledTimes(1);
+    expect(socket.readyState).toBe(FakeWebSocket.CLOSED);
+    expect(client.getState()).toBe('reconnecting');
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+  });
+
+  it('skips the ping while the socket is closing', async () => {
+    createClient();
+    const connected = client.connect();
+    const socket = FakeWebSocket.latest();
+    socket.open();
+    await connected;
+
+    socket.readyState = FakeWebSocket.CLOSING;
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(socket.sent).toEqual([]);
+  });
+
+  it('reports unparseable frames as connectionError', async () => {
+    createClient();
+    const onError = jest.fn();
+    const onMessage = jest.fn();
+    client.on('connectionError', onError);
+    client.on('message', onMessage);
+    const connected = client.connect();
+    const socket = FakeWebSocket.latest();
+    socket.open();
+    await connected;
+
+    socket.onmessage?.({ data: 'not json' });
+    expect(onError).toHaveBeenCalledWith(expect.any(SyntaxError));
+    expect(onMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  decimalMagnitude,
+  decimalPlaces,
+  decimalToInt,
+  isDecimalString,
+  normalizeDecimal,
+  roundDecimal,
+} from '../utils/decimal';
+import {
+  floatToIntForHashing,
+  floatToUsdInt,
+  floatToWire,
+} from '../utils/signing';
+import type { RoundingMode } from '../utils/precision';
+
+describe('decimal strings', () => {
+  it.each([
+    ['001.500', '1.5'],
+    ['.5', '0.5'],
+    ['5.', '5'],
+    ['-0.0', '0'],
+    ['-12.340', '-12.34'],
+    ['100', '100'],
+  ])('normalizes %p to %p', (value, expected) => {
+    expect(normalizeDecimal(value)).toBe(expected);
+  });
+
+  it.each(['', '-', '.', '1e5', '1,5', ' 1', '0x10', 'abc'])(
+    'rejects %p',
+    (value) => {
+      expect(isDecimalString(value)).toBe(false);
+      expect(() => normalizeDecimal(value)).toThrow('Invalid decimal');
+    }
+  );
+
+  it.each([
+    ['1.2300', 2, 0],
+    ['0.00123', 5, -3],
+    ['1234.5', 1, 3],
+    ['-0.5', 1, -1],
+  ])('counts decimals and magnitude of %p', (value, places, magnitude) => {
+    expect(decimalPlaces(value)).toBe(places);
+    expect(decimalMagnitude(value)).toBe(magnitude);
+  });
+
+  it.each<[string, number, RoundingMode, string]>([
+    ['1.005', 2, 'nearest', '1.01'],
+    ['1.004', 2, 'nearest', '1'],
+    ['-2.5', 0, 'nearest', '-2'],
+    ['-2.51', 0, 'nearest', '-3'],
+    ['1.231', 2, 'up', '1.24'],
+    ['-1.231', 2, 'up', '-1.23'],
+    ['-1.231', 2, 'down', '-1.24'],
+    ['0.000000019', 8, 'down', '0.00000001'],
+    [
+      '12345678901234567890.123456789',
+      8,
+      'nearest',
+      '12345678901234567890.12345679',
+    ],
+  ])(
+    'rounds %p to %p decimals (%s) as %p',
+    (value, decimals, mode, expected) => {
+      expect(roundDecimal(value, decimals, mode)).toBe(expected);
+    }
+  );
+
+  it('scales to integers without floats', () => {
+    expect(decimalToInt('1.5', 6)).toBe(1500000);
+    expect(decimalToInt('-0.000001', 6)).toBe(-1);
+    expect(() => decimalToInt('1.1234567', 6)).toThrow(
+      'decimalToInt causes rounding: 1.1234567'
+    );
+  });
+
+  it('refuses results outside the safe integer range', () => {
+    expect(decimalToInt('9007199254.740991', 6)).toBe(Number.MAX_SAFE_INTEGER);
+    expect(decimalToInt('-9007199254.740991', 6)).toBe(
+      -Number.MAX_SAFE_INTEGER
+    );
+    expect(() => decimalToInt('9007199254.740992', 6)).toThrow(RangeError);
+    expect(() => decimalToInt('-9007199254.740993', 6)).toThrow(RangeError);
+    expect(() => floatToUsdInt('12345678901234567890')).toThrow(RangeError);
+  });
+});
+
+describe('signing decimal strings', () => {
+  it.each([
+    ['0.10', 0.1, '0.1'],
+    ['1670.100', 1670.1, '1670.1'],
+    ['0.00000001', 0.00000001, '0.00000001'],
+    ['-0', -0, '0'],
+    ['100', 100, '100'],
+  ])('wires %p like %p as %p', (text, value, expected) => {
+    expect(floatToWire(text)).toBe(expected);
+    expect(floatToWire(value)).toBe(expected);
+  });
+
+  it('refuses more than 8 decimals either way', () => {
+    expect(() => floatToWire('1.123456789')).toThrow(
+      'floatToWire causes rounding: 1.123456789'
+    );
+    expect(() => floatToWire(1.123456789)).toThrow(
+      'floatToWire causes rounding: 1.123456789'
+    );
+  });
+
+  it.each([
+    ['1.5', 1.5, 1500000],
+    ['0.000001', 0.000001, 1],
+    ['1000000', 1000000, 1000000000000],
+  ])('converts %p like %p to %p usd units', (text, value, expected) => {
+    expect(floatToUsdInt(text)).toBe(expected);
+    expect(floatToUsdInt(value)).toBe(expected);
+  });
+
+  it('hashes decimal strings like numbers', () => {
+    expect(floatToIntForHashing('0.00000001')).toBe(1);
+    expect(floatToIntForHashing('12.5')).toBe(floatToIntForHashing(12.5));
+  });
+});
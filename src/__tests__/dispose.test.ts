@@ -0,0 +1,47 @@
+import { Hyperliquid } from '../index';
+import { RateLimiter } from '../utils/rateLimiter';
+import type { HttpTransport, HttpTransportResponse } from '../types';
+
+describe('Hyperliquid.dispose', () => {
+  let pending: Array<(response: HttpTransportResponse) => void>;
+  let transport: HttpTransport;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    pending = [];
+    transport = {
+      post: () => new Promise((resolve) => pending.push(resolve)),
+    };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('leaves no timer behind when disposed right after construction', async () => {
+    const sdk = new Hyperliquid(null, false, null, { transport });
+    sdk.dispose();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(pending).toHaveLength(0);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('leaves no timer behind when the first meta fetch returns after dispose', async () => {
+    const sdk = new Hyperliquid(null, false, null, {
+      transport,
+      rateLimiter: new RateLimiter(),
+    });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(pending).toHaveLength(2);
+
+    sdk.dispose();
+    pending[0]!({ status: 200, data: [{ universe: [] }, []] });
+    pending[1]!({ status: 200, data: [{ tokens: [], universe: [] }, []] });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,82 @@
+import { Hyperliquid } from '../index';
+import { NonceManager } from '../utils/nonceManager';
+import type { HttpTransport } from '../types';
+
+// Meta requests never answer, so the clients stay off the network
+const transport: HttpTransport = { post: () => new Promise(() => undefined) };
+
+describe('NonceManager', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('follows the injected clock', () => {
+    let now = 1000;
+    const nonces = new NonceManager(() => now);
+    expect(nonces.next()).toBe(1000);
+    now = 1500;
+    expect(nonces.next()).toBe(1500);
+  });
+
+  it('stays strictly increasing within a millisecond and when the clock goes back', () => {
+    let now = 1000;
+    const nonces = new NonceManager(() => now);
+    expect([nonces.next(), nonces.next(), nonces.next()]).toEqual([
+      1000, 1001, 1002,
+    ]);
+    now = 900;
+    expect(nonces.next()).toBe(1003);
+    now = 2000;
+    expect(nonces.next()).toBe(2000);
+  });
+
+  it('applies the offset to the server clock', () => {
+    let now = 1000;
+    const nonces = new NonceManager(() => now);
+    nonces.syncServerTime(1250);
+    expect(nonces.getClockOffset()).toBe(250);
+    now = 2000;
+    expect(nonces.now()).toBe(2250);
+    expect(nonces.next()).toBe(2250);
+
+    // A server behind the local clock pulls nonces back, but never below one already used
+    nonces.syncServerTime(1000);
+    expect(nonces.getClockOffset()).toBe(-1000);
+    expect(nonces.next()).toBe(2251);
+    now = 4000;
+    expect(nonces.next()).toBe(3000);
+  });
+
+  it('is shared by clients that were not given their own', () => {
+    const sharedA = new Hyperliquid(null, false, null, { transport });
+    const sharedB = new Hyperliquid(null, false, null, { transport });
+    const own = new NonceManager();
+    const separate = new Hyperliquid(null, false, null, {
+      nonceManager: own,
+      transport,
+    });
+
+    expect(sharedA.getNonceManager()).toBe(NonceManager.getShared());
+    expect(sharedB.getNonceManager()).toBe(NonceManager.getShared());
+    expect(separate.getNonceManager()).toBe(own);
+    [sharedA, sharedB, separate].forEach((sdk) => sdk.dispose());
+  });
+
+  it('syncs from webData2 server time', () => {
+    const nonceManager = new NonceManager(() => 1000);
+    const sdk = new Hyperliquid(null, false, null, {
+      nonceManager,
+      transport,
+    });
+    sdk.ws.emit('message', {
+      channel: 'webData2',
+      data: { serverTime: 1400 },
+    });
+    expect(nonceManager.getClockOffset()).toBe(400);
+    sdk.dispose();
+  });
+});
@@ -0,0 +1,99 @@
+import { FakeWebSocket } from '../__fixtures__/fakeWebSocket';
+import { WebSocketClient } from '../websocket/connection';
+import { MAX_INFLIGHT_POSTS, WebSocketPostClient } from '../websocket/post';
+
+describe('WebSocketPostClient', () => {
+  let ws: WebSocketClient;
+  let post: WebSocketPostClient;
+  let socket: FakeWebSocket;
+
+  function respond(id: number, response: unknown): void {
+    socket.receive({ channel: 'post', data: { id, response } });
+  }
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    FakeWebSocket.install();
+    ws = new WebSocketClient(false, { reconnect: { maxAttempts: 0 } });
+    post = new WebSocketPostClient(ws);
+    const connected = ws.connect();
+    socket = FakeWebSocket.latest();
+    socket.open();
+    await connected;
+  });
+
+  afterEach(() => {
+    ws.close();
+    jest.useRealTimers();
+  });
+
+  it('matches responses to requests by id, in any order', async () => {
+    const first = post.post('info', { type: 'allMids' }, 1000);
+    const second = post.post('action', { action: { type: 'noop' } }, 1000);
+    const [firstId, secondId] = socket
+      .sentOfMethod('post')
+      .map((message) => message.id);
+    expect(socket.sentOfMethod('post')[1]).toEqual({
+      method: 'post',
+      id: secondId,
+      request: { type: 'action', payload: { action: { type: 'noop' } } },
+    });
+
+    respond(secondId, { type: 'action', payload: { status: 'ok' } });
+    respond(firstId, { type: 'info', payload: { BTC: '1' } });
+    await expect(first).resolves.toEqual({ BTC: '1' });
+    await expect(second).resolves.toEqual({ status: 'ok' });
+  });
+
+  it('rejects error responses with WS_POST_ERROR', async () => {
+    const request = post.post('info', {}, 1000);
+    respond(socket.sentOfMethod('post')[0].id, {
+      type: 'error',
+      payload: 'bad request',
+    });
+    await expect(request).rejects.toMatchObject({
+      code: 'WS_POST_ERROR',
+      message: 'bad request',
+    });
+  });
+
+  it('times out without a response and ignores a late one', async () => {
+    const request = post.post('info', {}, 1000);
+    const failure = request.catch((error) => error);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(await failure).toMatchObject({ code: 'TIMEOUT' });
+    respond(socket.sentOfMethod('post')[0].id, { type: 'info', payload: 1 });
+  });
+
+  it('rejects on abort, before or after sending', async () => {
+    const controller = new AbortController();
+    const request = post.post('info', {}, 1000, controller.signal);
+    controller.abort();
+    await expect(request).rejects.toMatchObject({ code: 'ABORTED' });
+    await expect(
+      post.post('info', {}, 1000, controller.signal)
+    ).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(socket.sentOfMethod('post')).toHaveLength(1);
+  });
+
+  it('fails requests in flight when the socket closes', async () => {
+    const request = post.post('info', {}, 1000);
+    socket.drop();
+    await expect(request).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
+    await expect(post.post('info', {}, 1000)).rejects.toMatchObject({
+      code: 'NETWORK_ERROR',
+    });
+    expect(post.isAvailable()).toBe(false);
+  });
+
+  it('is unavailable with the maximum number of requests in flight', async () => {
+    const requests = Array.from({ length: MAX_INFLIGHT_POSTS }, () =>
+      post.post('info', {}, 1000).catch(() => undefined)
+    );
+    expect(post.isAvailable()).toBe(false);
+    respond(socket.sentOfMethod('post')[0].id, { type: 'info', payload: 1 });
+    expect(post.isAvailable()).toBe(true);
+    await jest.advanceTimersByTimeAsync(1000);
+    await Promise.all(requests);
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  roundPrice,
+  roundPriceForSide,
+  roundSize,
+  roundToDecimals,
+  type RoundingMode,
+} from '../utils/precision';
+import { orderToWire } from '../utils/signing';
+import type { Order } from '../types';
+
+describe('roundPrice', () => {
+  it.each<[number, number, boolean, RoundingMode, number]>([
+    [1234.5678, 2, false, 'nearest', 1234.6],
+    [0.0001234567, 0, true, 'down', 0.00012345],
+    [0.0001234567, 0, true, 'up', 0.00012346],
+    [123456.7, 0, false, 'nearest', 123457],
+    [0.123456, 4, false, 'nearest', 0.12],
+    [0.123456, 4, true, 'nearest', 0.1235],
+    [-1.23456, 2, false, 'nearest', -1.2346],
+    [0, 3, false, 'nearest', 0],
+  ])(
+    'rounds %p with szDecimals %p (spot %p, %s) to %p',
+    (px, szDecimals, isSpot, mode, expected) => {
+      expect(roundPrice(px, szDecimals, isSpot, mode)).toBe(expected);
+    }
+  );
+
+  it.each<[string, number, boolean, RoundingMode, string]>([
+    ['1234.5678', 2, false, 'nearest', '1234.6'],
+    ['0.0001234567', 0, true, 'down', '0.00012345'],
+    ['0.0001234567', 0, true, 'up', '0.00012346'],
+    ['123456.7', 0, false, 'nearest', '123457'],
+    ['0.10000', 1, false, 'nearest', '0.1'],
+    ['-1.23456', 2, false, 'nearest', '-1.2346'],
+    ['0.000', 3, false, 'nearest', '0'],
+  ])(
+    'rounds the string %p with szDecimals %p (spot %p, %s) to %p',
+    (px, szDecimals, isSpot, mode, expected) => {
+      expect(roundPrice(px, szDecimals, isSpot, mode)).toBe(expected);
+    }
+  );
+
+  it('rounds buys down and sells up', () => {
+    expect(roundPriceForSide(1234.56, 2, false, true)).toBe(1234.5);
+    expect(roundPriceForSide(1234.56, 2, false, false)).toBe(1234.6);
+    expect(roundPriceForSide('1234.56', 2, false, true)).toBe('1234.5');
+    expect(roundPriceForSide('1234.56', 2, false, false)).toBe('1234.6');
+  });
+});
+
+describe('roundToDecimals', () => {
+  it.each<[number, number, RoundingMode, number]>([
+    [1.005, 2, 'nearest', 1.01],
+    [2.5, 0, 'nearest', 3],
+    [-2.5, 0, 'nearest', -2],
+    [1.231, 2, 'up', 1.24],
+    [-1.231, 2, 'up', -1.23],
+    [-1.231, 2, 'down', -1.24],
+  ])(
+    'rounds %p to %p decimals (%s) as %p',
+    (value, decimals, mode, expected) => {
+      expect(roundToDecimals(value, decimals, mode)).toBe(expected);
+      expect(roundToDecimals(String(value), decimals, mode)).toBe(
+        String(expected)
+      );
+    }
+  );
+});
+
+describe('roundSize', () => {
+  it.each<[number, number, number]>([
+    [1.23456, 3, 1.234],
+    [0.29, 1, 0.2],
+    [0.3, 1, 0.3],
+    [5, 0, 5],
+    [5.99, 0, 5],
+  ])('rounds %p down to %p decimals as %p', (sz, szDecimals, expected) => {
+    expect(roundSize(sz, szDecimals)).toBe(expected);
+    expect(roundSize(String(sz), szDecimals)).toBe(String(expected));
+  });
+});
+
+describe('orderToWire with szDecimals', () => {
+  const order: Order = {
+    coin: 'ETH-PERP',
+    is_buy: true,
+    sz: 0.0147,
+    limit_px: 1670.17,
+    order_type: { limit: { tif: 'Gtc' } },
+    reduce_only: false,
+  };
+
+  it.each<[Partial<Order>, { p: string; s: string }]>([
+    [{}, { p: '1670.1', s: '0.014' }],
+    [{ is_buy: false }, { p: '1670.2', s: '0.014' }],
+    [
+      { sz: '0.0147', limit_px: '1670.17' },
+      { p: '1670.1', s: '0.014' },
+    ],
+    [{ sz: 0.001 }, { p: '1670.1', s: '0.001' }],
+  ])('wires %p as %p', (changes, expected) => {
+    expect(orderToWire({ ...order, ...changes }, 4, 3)).toMatchObject(expected);
+  });
+
+  it.each([0.0009, '0.0009'])(
+    'rejects the size %p that would round to zero',
+    (sz) => {
+      expect(() => orderToWire({ ...order, sz }, 4, 3)).toThrow(
+        'Order size 0.0009 is below the minimum lot of 0.001'
+      );
+    }
+  );
+
+  it('keeps a zero size trigger leg', () => {
+    const trigger: Order = {
+      ...order,
+      sz: 0,
+      order_type: { trigger: { triggerPx: 1600, isMarket: true, tpsl: 'sl' } },
+      reduce_only: true,
+    };
+    expect(orderToWire(trigger, 4, 3).s).toBe('0');
+  });
+});
@@ -0,0 +1,356 @@
+import {
+  KeyValueRateLimitStore,
+  MemoryRateLimitStore,
+  RateLimiter,
+  RedisRateLimitStore,
+  REDIS_RATE_LIMIT_SCRIPT,
+} from '../utils/rateLimiter';
+import type {
+  RateLimitBucket,
+  RateLimitKeyValue,
+  RateLimitStore,
+  RateLimitTakeResult,
+} from '../types';
+
+// 60 weight per minute refills one unit per second
+const CAPACITY = 60;
+const UNIT_MS = 1000;
+const BUCKET: RateLimitBucket = { capacity: 10, refillPerMs: 0.001 };
+
+// A store whose answers the test releases one by one
+class DeferredStore implements RateLimitStore {
+  private inner = new MemoryRateLimitStore(() => Date.now());
+  pending: Array<() => void> = [];
+
+  take(
+    key: string,
+    cost: number,
+    bucket: RateLimitBucket,
+    force?: boolean
+  ): Promise<RateLimitTakeResult> {
+    return new Promise((resolve) => {
+      this.pending.push(() =>
+        resolve(this.inner.take(key, cost, bucket, force))
+      );
+    });
+  }
+
+  release(): void {
+    this.pending.shift()?.();
+  }
+}
+
+function settled(promise: Promise<unknown>): () => string {
+  let state = 'pending';
+  promise.then(
+    () => (state = 'resolved'),
+    (error) => (state = `rejected ${error.code}`)
+  );
+  return () => state;
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('grants while the bucket holds enough and waits for the refill after', async () => {
+    const limiter = new RateLimiter({ capacity: CAPACITY });
+    await limiter.waitForToken(CAPACITY);
+    expect(limiter.getRemainingWeight()).toBe(0);
+
+    const next = settled(limiter.waitForToken(2));
+    await jest.advanceTimersByTimeAsync(UNIT_MS);
+    expect(next()).toBe('pending');
+    await jest.advanceTimersByTimeAsync(UNIT_MS);
+    expect(next()).toBe('resolved');
+  });
+
+  it('releases waiters by priority, FIFO within a priority', async () => {
+    const limiter = new RateLimiter({ capacity: CAPACITY });
+    await limiter.waitForToken(CAPACITY);
+
+    const order: string[] = [];
+    const wait = (name: string, priority: 'high' | 'normal' | 'low') =>
+      limiter.waitForToken(1, priority).then(() => order.push(name));
+    const all = Promise.all([
+      wait('low', 'low'),
+      wait('normal 1', 'normal'),
+      wait('high', 'high'),
+      wait('normal 2', 'normal'),
+    ]);
+    await jest.advanceTimersByTimeAsync(4 * UNIT_MS);
+    await all;
+
+    expect(order).toEqual(['high', 'normal 1', 'normal 2', 'low']);
+  });
+
+  it('keeps arrival order for calls made together with an empty queue', async () => {
+    const store = new DeferredStore();
+    const limiter = new RateLimiter({ capacity: CAPACITY, store });
+    const order: number[] = [];
+    const calls = [1, 2, 3].map((n) =>
+      limiter.waitForToken(1).then(() => order.push(n))
+    );
+    for (let i = 0; i < 3; i++) {
+      await Promise.resolve();
+      store.release();
+      await jest.advanceTimersByTimeAsync(0);
+    }
+    await Promise.all(calls);
+
+    expect(order).toEqual([1, 2, 3]);
+    expect(store.pending).toHaveLength(0);
+  });
+
+  it('rejects an aborted waiter and gives its weight to the next one', async () => {
+    const limiter = new RateLimiter({ capacity: CAPACITY });
+    await limiter.waitForToken(CAPACITY);
+    const controller = new AbortController();
+
+    const aborted = settled(limiter.waitForToken(5, 'high', controller.signal));
+    const next = settled(limiter.waitForToken(1));
+    controller.abort();
+    await jest.advanceTimersByTimeAsync(UNIT_MS);
+
+    expect(aborted()).toBe('rejected ABORTED');
+    expect(next()).toBe('resolved');
+  });
+
+  it('rejects and refunds when aborted while the store is answering', async () => {
+    const store = new DeferredStore();
+    const limiter = new RateLimiter({ capacity: CAPACITY, store });
+    const controller = new AbortController();
+
+    const wait = settled(limiter.waitForToken(10, 'normal', controller.signal));
+    await Promise.resolve();
+    controller.abort();
+    store.release();
+    await jest.advanceTimersByTimeAsync(0);
+    store.release();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(wait()).toBe('rejected ABORTED');
+    expect(limiter.getRemainingWeight()).toBe(CAPACITY);
+  });
+
+  it('rejects when disposed while the store is answering', async () => {
+    const store = new DeferredStore();
+    const limiter = new RateLimiter({ capacity: CAPACITY, store });
+
+    const wait = settled(limiter.waitForToken(1));
+    await Promise.resolve();
+    limiter.dispose();
+    store.release();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(wait()).toBe('rejected DISPOSED');
+    await expect(limiter.waitForToken(1)).rejects.toMatchObject({
+      code: 'DISPOSED',
+    });
+  });
+
+  it('rejects waiters queued when disposed', async () => {
+    const limiter = new RateLimiter({ capacity: CAPACITY });
+    await limiter.waitForToken(CAPACITY);
+    const wait = settled(limiter.waitForToken(1));
+    await jest.advanceTimersByTimeAsync(0);
+
+    limiter.dispose();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(wait()).toBe('rejected DISPOSED');
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('rejects with QUEUE_FULL only once requests actually wait', async () => {
+    const limiter = new RateLimiter({ capacity: CAPACITY, maxQueueSize: 1 });
+    await Promise.all([limiter.waitForToken(1), limiter.waitForToken(1)]);
+
+    await limiter.waitForToken(CAPACITY - 2);
+    const waiting = limiter.waitForToken(1);
+    await expect(limiter.waitForToken(1)).rejects.toMatchObject({
+      code: 'QUEUE_FULL',
+    });
+    await jest.advanceTimersByTimeAsync(UNIT_MS);
+    await waiting;
+  });
+
+  it('lets charge() overdraw the bucket', async () => {
+    const limiter = new RateLimiter({ capacity: CAPACITY });
+    await limiter.charge(CAPACITY + 10);
+    expect(limiter.getRemainingWeight()).toBe(0);
+
+    const next = settled(limiter.waitForToken(1));
+    await jest.advanceTimersByTimeAsync(10 * UNIT_MS);
+    expect(next()).toBe('pending');
+    await jest.advanceTimersByTimeAsync(UNIT_MS);
+    expect(next()).toBe('resolved');
+  });
+
+  it('calls onLowBudget once per drop below the threshold', async () => {
+    const limiter = new RateLimiter({ capacity: CAPACITY });
+    const onLow = jest.fn();
+    limiter.onLowBudget(10, onLow);
+
+    await limiter.waitForToken(CAPACITY - 5);
+    await limiter.waitForToken(1);
+    expect(onLow).toHaveBeenCalledTimes(1);
+    expect(onLow).toHaveBeenCalledWith(5);
+
+    await jest.advanceTimersByTimeAsync(CAPACITY * UNIT_MS);
+    await limiter.waitForToken(CAPACITY - 5);
+    expect(onLow).toHaveBeenCalledTimes(2);
+  });
+
+  it('tracks address budgets case-insensitively once seeded', () => {
+    const limiter = new RateLimiter();
+    const onLow = jest.fn();
+    limiter.onLowAddressBudget(5, onLow);
+    expect(limiter.getRemainingAddressActions('0xAbC')).toBeUndefined();
+    limiter.consumeAddressBudget('0xAbC');
+    expect(limiter.getRemainingAddressActions('0xabc')).toBeUndefined();
+
+    limiter.seedAddressBudget('0xAbC', {
+      cumVlm: '0',
+      nRequestsUsed: 90,
+      nRequestsCap: 100,
+    });
+    limiter.consumeAddressBudget('0xABC', 4);
+    expect(limiter.getRemainingAddressActions('0xabc')).toBe(6);
+    expect(onLow).not.toHaveBeenCalled();
+
+    limiter.consumeAddressBudget('0xabc', 3);
+    limiter.consumeAddressBudget('0xabc', 1);
+    expect(onLow).toHaveBeenCalledTimes(1);
+    expect(onLow).toHaveBeenCalledWith('0xabc', 3);
+
+    limiter.consumeAddressBudget('0xabc', 10);
+    expect(limiter.getRemainingAddressActions('0xabc')).toBe(0);
+  });
+});
+
+describe('MemoryRateLimitStore', () => {
+  it('refills with the injected clock, never above capacity', async () => {
+    let now = 0;
+    const store = new MemoryRateLimitStore(() => now);
+
+    await expect(store.take('k', 10, BUCKET)).resolves.toEqual({
+      granted: true,
+      tokens: 0,
+    });
+    await expect(store.take('k', 1, BUCKET)).resolves.toEqual({
+      granted: false,
+      tokens: 0,
+    });
+    now = 3000;
+    await expect(store.take('k', 2, BUCKET)).resolves.toEqual({
+      granted: true,
+      tokens: 1,
+    });
+    await expect(store.take('k', 5, BUCKET, true)).resolves.toEqual({
+      granted: true,
+      tokens: -4,
+    });
+    now = 100000;
+    await expect(store.take('k', 0, BUCKET)).resolves.toEqual({
+      granted: true,
+      tokens: 10,
+    });
+  });
+});
+
+describe('KeyValueRateLimitStore', () => {
+  function memoryKeyValue() {
+    const data = new Map<string, string>();
+    const kv: RateLimitKeyValue = {
+      get: async (key) => data.get(key) ?? null,
+      compareAndSet: async (key, expected, value) => {
+        if ((data.get(key) ?? null) !== expected) {
+          return false;
+        }
+        data.set(key, value);
+        return true;
+      },
+    };
+    return { data, kv };
+  }
+
+  it('never grants more than the bucket holds to concurrent takes', async () => {
+    const { kv } = memoryKeyValue();
+    const store = new KeyValueRateLimitStore(kv, { clock: () => 0 });
+
+    const results = await Promise.all(
+      Array.from({ length: 7 }, () => store.take('k', 2, BUCKET))
+    );
+
+    expect(results.filter((result) => result.granted)).toHaveLength(5);
+    expect(results.map((result) => result.tokens).sort()).toEqual([
+      0, 0, 0, 2, 4, 6, 8,
+    ]);
+  });
+
+  it('retries when another writer changed the bucket in between', async () => {
+    const { data, kv } = memoryKeyValue();
+    let interfere = true;
+    const store = new KeyValueRateLimitStore(
+      {
+        get: async (key) => {
+          const value = await kv.get(key);
+          if (interfere) {
+            interfere = false;
+            data.set(key, JSON.stringify({ tokens: 4, updatedAt: 0 }));
+          }
+          return value;
+        },
+        compareAndSet: kv.compareAndSet,
+      },
+      { clock: () => 0 }
+    );
+
+    await expect(store.take('k', 3, BUCKET)).resolves.toEqual({
+      granted: true,
+      tokens: 1,
+    });
+  });
+
+  it('fails with STORE_CONFLICT when the bucket keeps changing', async () => {
+    const store = new KeyValueRateLimitStore(
+      { get: async () => null, compareAndSet: async () => false },
+      { maxAttempts: 3 }
+    );
+    await expect(store.take('k', 1, BUCKET)).rejects.toMatchObject({
+      code: 'STORE_CONFLICT',
+    });
+  });
+});
+
+describe('RedisRateLimitStore', () => {
+  it('runs the script with the bucket key and its arguments', async () => {
+    const evaluate = jest.fn(async () => [1, '7.5']);
+    const store = new RedisRateLimitStore(evaluate);
+
+    await expect(store.take('k', 2, BUCKET, true)).resolves.toEqual({
+      granted: true,
+      tokens: 7.5,
+    });
+    expect(evaluate).toHaveBeenCalledWith(REDIS_RATE_LIMIT_SCRIPT, 'k', [
+      '2',
+      '10',
+      '0.001',
+      '1',
+    ]);
+  });
+
+  it('reports a denied take', async () => {
+    const store = new RedisRateLimitStore(async () => [0, '0.25']);
+    await expect(store.take('k', 2, BUCKET)).resolves.toEqual({
+      granted: false,
+      tokens: 0.25,
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { ethers } from 'ethers';
+
+import {
+  actionHash,
+  floatToUsdInt,
+  floatToWire,
+  orderToWire,
+  signL1Action,
+} from '../utils/signing';
+import { WalletClientSigner } from '../utils/signer';
+import type { Order } from '../types';
+
+describe('decimal string inputs', () => {
+  it('wires a decimal string like the equal number', () => {
+    expect(floatToWire('0.10')).toBe(floatToWire(0.1));
+    expect(floatToWire('1670.100')).toBe(floatToWire(1670.1));
+    expect(floatToWire('-0')).toBe(floatToWire(-0));
+  });
+
+  it('converts a decimal string to the same usd int as the equal number', () => {
+    expect(floatToUsdInt('1.5')).toBe(floatToUsdInt(1.5));
+    expect(floatToUsdInt('0.000001')).toBe(floatToUsdInt(0.000001));
+  });
+
+  it('builds the same order wire from strings and numbers', () => {
+    const order: Order = {
+      coin: 'ETH-PERP',
+      is_buy: true,
+      sz: 0.0147,
+      limit_px: 1670.1,
+      order_type: { limit: { tif: 'Gtc' } },
+      reduce_only: false,
+    };
+    const stringOrder: Order = { ...order, sz: '0.0147', limit_px: '1670.10' };
+    expect(orderToWire(stringOrder, 4)).toEqual(orderToWire(order, 4));
+    expect(orderToWire(stringOrder, 4, 4)).toEqual(orderToWire(order, 4, 4));
+  });
+
+  it('builds the same trigger order wire from strings and numbers', () => {
+    const order: Order = {
+      coin: 'ETH-PERP',
+      is_buy: false,
+      sz: 0.5,
+      limit_px: 1500,
+      order_type: {
+        trigger: { triggerPx: 1550.5, isMarket: true, tpsl: 'sl' },
+      },
+      reduce_only: true,
+    };
+    const stringOrder: Order = {
+      ...order,
+      sz: '0.50',
+      limit_px: '1500',
+      order_type: {
+        trigger: { triggerPx: '1550.50', isMarket: true, tpsl: 'sl' },
+      },
+    };
+    expect(orderToWire(stringOrder, 4)).toEqual(orderToWire(order, 4));
+  });
+});
+
+describe('actionHash', () => {
+  const action = {
+    type: 'order',
+    orders: [
+      {
+        a: 4,
+        b: true,
+        p: '1670.1',
+        s: '0.0147',
+        r: false,
+        t: { limit: { tif: 'Ioc' } },
+      },
+    ],
+    grouping: 'na',
+  };
+  const nonce = 1677777606040;
+  const vaultAddress = '0x1719884eb866cb12b2287399b15f7db5e7d775ea';
+  const expiresAfter = 1677777666040;
+
+  // Expected hashes come from a reference implementation of the same byte layout
+  it.each([
+    [
+      null,
+      null,
+      '0x0fcbeda5ae3c4950a548021552a4fea2226858c4453571bf3f24ba017eac2908',
+    ],
+    [
+      vaultAddress,
+      null,
+      '0x536c41c128a75dc08fb31e02008bcf08b79852616b34e855d514fa673d81955d',
+    ],
+    [
+      null,
+      expiresAfter,
+      '0xd613281305a1aa22b0fb0337266b52800abc4c9ed3242e53b6f3f4cdfc1653da',
+    ],
+    [
+      vaultAddress,
+      expiresAfter,
+      '0x1b7d8ce3a2a2839706dbbcaeef25c6b51ac1f1f2654eeb95469e82e0494408c3',
+    ],
+  ])('hashes with vault %s and expiresAfter %s', (vault, expires, hash) => {
+    expect(actionHash(action, vault, nonce, expires)).toBe(hash);
+  });
+});
+
+describe('signL1Action', () => {
+  const wallet = new ethers.Wallet(
+    '0x0123456789012345678901234567890123456789012345678901234567890123'
+  );
+  const action = { type: 'cancel', cancels: [{ a: 4, o: 12345 }] };
+
+  it('signs the same with an ethers wallet, a rest-args signer and a viem-style client', async () => {
+    const expected = await signL1Action(wallet, action, null, 1, true);
+    const restArgsSigner = {
+      getAddress: async () => wallet.address,
+      signTypedData: (...args: any[]) =>
+        wallet.signTypedData(args[0].domain, args[0].types, args[0].message),
+    };
+    const walletClient = new WalletClientSigner({
+      account: { address: wallet.address as `0x${string}` },
+      signTypedData: ({ domain, types, message }) =>
+        wallet.signTypedData(domain, types, message),
+    });
+
+    await expect(
+      signL1Action(restArgsSigner, action, null, 1, true)
+    ).resolves.toEqual(expected);
+    await expect(
+      signL1Action(walletClient, action, null, 1, true)
+    ).resolves.toEqual(expected);
+  });
+});
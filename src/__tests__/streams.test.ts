@@ -0,0 +1,137 @@
+import {
+  FakeWebSocket,
+  PausableFakeWebSocket,
+} from '../__fixtures__/fakeWebSocket';
+import { WebSocketClient } from '../websocket/connection';
+import { toAsyncIterable } from '../websocket/streams';
+import type { SubscriptionHandle } from '../types';
+
+function fakeSource() {
+  let emit: (value: number) => void = () => undefined;
+  const handle: SubscriptionHandle = {
+    subscription: { type: 'allMids' },
+    unsubscribe: jest.fn(async () => undefined),
+    pause: jest.fn(),
+    resume: jest.fn(),
+  };
+  const subscribe = async (callback: (value: number) => void) => {
+    emit = callback;
+    return handle;
+  };
+  return { handle, subscribe, emit: (value: number) => emit(value) };
+}
+
+describe('toAsyncIterable', () => {
+  it('drops the oldest message with overflow dropOldest', async () => {
+    const source = fakeSource();
+    const stream = toAsyncIterable(source.subscribe, { bufferSize: 2 });
+    await Promise.resolve();
+    [1, 2, 3].forEach(source.emit);
+
+    await expect(stream.next()).resolves.toEqual({ value: 2, done: false });
+    await expect(stream.next()).resolves.toEqual({ value: 3, done: false });
+  });
+
+  it('yields what it buffered, then fails with overflow error', async () => {
+    const source = fakeSource();
+    const stream = toAsyncIterable(source.subscribe, {
+      bufferSize: 2,
+      overflow: 'error',
+    });
+    await Promise.resolve();
+    [1, 2, 3].forEach(source.emit);
+
+    await expect(stream.next()).resolves.toEqual({ value: 1, done: false });
+    await expect(stream.next()).resolves.toEqual({ value: 2, done: false });
+    await expect(stream.next()).rejects.toMatchObject({
+      code: 'STREAM_OVERFLOW',
+    });
+    expect(source.handle.unsubscribe).toHaveBeenCalled();
+  });
+
+  it('pauses the source when full and resumes once half has been read, dropping nothing', async () => {
+    const source = fakeSource();
+    const stream = toAsyncIterable(source.subscribe, {
+      bufferSize: 4,
+      overflow: 'pause',
+    });
+    await Promise.resolve();
+    [1, 2, 3, 4].forEach(source.emit);
+    await Promise.resolve();
+    expect(source.handle.pause).toHaveBeenCalledTimes(1);
+
+    // Already on its way when the pause landed
+    source.emit(5);
+    await stream.next();
+    await stream.next();
+    await Promise.resolve();
+    expect(source.handle.resume).not.toHaveBeenCalled();
+    await stream.next();
+    await Promise.resolve();
+    expect(source.handle.resume).toHaveBeenCalledTimes(1);
+    await expect(stream.next()).resolves.toEqual({ value: 4, done: false });
+    await expect(stream.next()).resolves.toEqual({ value: 5, done: false });
+  });
+
+  it('ends the subscription when the loop breaks', async () => {
+    const source = fakeSource();
+    const stream = toAsyncIterable(source.subscribe);
+    await Promise.resolve();
+    source.emit(1);
+    for await (const value of stream) {
+      expect(value).toBe(1);
+      break;
+    }
+    await Promise.resolve();
+    expect(source.handle.unsubscribe).toHaveBeenCalled();
+  });
+});
+
+describe('WebSocketClient.pause', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('holds messages until every pause is resumed, then delivers them in order', async () => {
+    PausableFakeWebSocket.install();
+    const client = new WebSocketClient(false);
+    const connected = client.connect();
+    const socket = FakeWebSocket.latest() as PausableFakeWebSocket;
+    socket.open();
+    await connected;
+    const received: unknown[] = [];
+    client.on('message', (message) => received.push(message.data));
+
+    client.pause();
+    client.pause();
+    expect(socket.paused).toBe(true);
+    socket.receive({ channel: 'trades', data: 1 });
+    socket.receive({ channel: 'trades', data: 2 });
+    client.resume();
+    expect(received).toEqual([]);
+    client.resume();
+    expect(socket.paused).toBe(false);
+    expect(received).toEqual([1, 2]);
+    client.close();
+  });
+
+  it('does not take a paused connection for a stalled one', async () => {
+    jest.useFakeTimers();
+    FakeWebSocket.install();
+    const client = new WebSocketClient(false, {
+      pingIntervalMs: 1000,
+      pongTimeoutMs: 500,
+    });
+    const stalled = jest.fn();
+    client.on('stalled', stalled);
+    const connected = client.connect();
+    FakeWebSocket.latest().open();
+    await connected;
+
+    client.pause();
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(stalled).not.toHaveBeenCalled();
+    expect(client.getState()).toBe('open');
+    client.close();
+  });
+});
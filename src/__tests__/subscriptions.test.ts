@@ -0,0 +1,224 @@
+import { FakeWebSocket } from '../__fixtures__/fakeWebSocket';
+import { WebSocketClient } from '../websocket/connection';
+import { WebSocketSubscriptions } from '../websocket/subscriptions';
+import type { SymbolConversion } from '../utils/symbolConversion';
+import type { ResyncEvent } from '../types';
+
+// Coins pass through unchanged, the tests only care about routing
+const symbolConversion = {
+  convertSymbol: async (symbol: string) => symbol,
+  convertSymbolsInObject: async (object: unknown) => object,
+  convertToNumber: (value: unknown) => value,
+} as unknown as SymbolConversion;
+
+function flush(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+describe('WebSocketSubscriptions', () => {
+  let ws: WebSocketClient;
+  let subscriptions: WebSocketSubscriptions;
+
+  async function connect(): Promise<FakeWebSocket> {
+    const connected = ws.connect();
+    const socket = FakeWebSocket.latest();
+    socket.open();
+    await connected;
+    return socket;
+  }
+
+  beforeEach(() => {
+    FakeWebSocket.install();
+    ws = new WebSocketClient(false, {
+      reconnect: { initialDelayMs: 1, jitter: 0 },
+    });
+    subscriptions = new WebSocketSubscriptions(ws, symbolConversion);
+  });
+
+  afterEach(() => {
+    ws.close();
+  });
+
+  it('shares one server subscription between callbacks and ends it with the last one', async () => {
+    const socket = await connect();
+    const first = jest.fn();
+    const second = jest.fn();
+    const firstHandle = await subscriptions.subscribeToUserFills(
+      '0xAbC',
+      first
+    );
+    const secondHandle = await subscriptions.subscribeToUserFills(
+      '0xabc',
+      second
+    );
+    expect(socket.sentOfMethod('subscribe')).toHaveLength(1);
+
+    socket.receive({
+      channel: 'userFills',
+      data: { user: '0xabc', fills: [] },
+    });
+    await flush();
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+
+    await firstHandle.unsubscribe();
+    await firstHandle.unsubscribe();
+    expect(socket.sentOfMethod('unsubscribe')).toHaveLength(0);
+    socket.receive({
+      channel: 'userFills',
+      data: { user: '0xabc', fills: [] },
+    });
+    await flush();
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(2);
+
+    await secondHandle.unsubscribe();
+    expect(socket.sentOfMethod('unsubscribe')).toEqual([
+      {
+        method: 'unsubscribe',
+        subscription: { type: 'userFills', user: '0xAbC' },
+      },
+    ]);
+  });
+
+  it('routes messages to the subscription they belong to', async () => {
+    const socket = await connect();
+    const btc = jest.fn();
+    const eth = jest.fn();
+    await subscriptions.subscribeToTrades('BTC', btc);
+    await subscriptions.subscribeToTrades('ETH', eth);
+
+    socket.receive({ channel: 'trades', data: [{ coin: 'ETH', px: '1' }] });
+    await flush();
+    expect(btc).not.toHaveBeenCalled();
+    expect(eth).toHaveBeenCalledWith([{ coin: 'ETH', px: '1' }]);
+  });
+
+  it('sends subscriptions made before connecting once the socket opens', async () => {
+    await subscriptions.subscribeToAllMids(jest.fn());
+    const socket = await connect();
+    expect(socket.sentOfMethod('subscribe')).toEqual([
+      { method: 'subscribe', subscription: { type: 'allMids' } },
+    ]);
+  });
+
+  it('replays subscriptions after a reconnect and flags the first snapshot', async () => {
+    const first = await connect();
+    const fills = jest.fn();
+    const resyncs: ResyncEvent[] = [];
+    subscriptions.onResync((event) => resyncs.push(event));
+    await subscriptions.subscribeToUserFills('0xabc', fills);
+    await subscriptions.subscribeToTrades('BTC', jest.fn());
+
+    first.drop();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = FakeWebSocket.latest();
+    expect(second).not.toBe(first);
+    second.open();
+
+    expect(second.sentOfMethod('subscribe').map((m) => m.subscription)).toEqual(
+      [
+        { type: 'userFills', user: '0xabc' },
+        { type: 'trades', coin: 'BTC' },
+      ]
+    );
+    expect(resyncs).toHaveLength(1);
+    expect(resyncs[0]!.gapMs).toBeGreaterThanOrEqual(0);
+    expect(resyncs[0]!.subscriptions).toHaveLength(2);
+
+    second.receive({
+      channel: 'userFills',
+      data: { user: '0xabc', isSnapshot: true, fills: [] },
+    });
+    second.receive({
+      channel: 'userFills',
+      data: { user: '0xabc', isSnapshot: true, fills: [] },
+    });
+    await flush();
+    expect(fills.mock.calls.map(([data]) => data.isResync)).toEqual([
+      true,
+      undefined,
+    ]);
+  });
+
+  it('reports a throwing callback as subscriptionError without starving the others', async () => {
+    const socket = await connect();
+    const failure = new Error('boom');
+    const onError = jest.fn();
+    ws.on('subscriptionError', onError);
+    const healthy = jest.fn();
+    await subscriptions.subscribeToAllMids(() => {
+      throw failure;
+    });
+    await subscriptions.subscribeToAllMids(healthy);
+
+    socket.receive({ channel: 'allMids', data: { mids: { BTC: '1' } } });
+    await flush();
+    expect(healthy).toHaveBeenCalledWith({ BTC: '1' });
+    expect(onError).toHaveBeenCalledWith(failure, { type: 'allMids' });
+  });
+
+  it.each([
+    { mantissa: 2 as const },
+    { nSigFigs: 4 as const, mantissa: 2 as const },
+  ])('refuses l2Book options %p', async (options) => {
+    const socket = await connect();
+    await expect(
+      subscriptions.subscribeToL2Book('BTC', jest.fn(), options)
+    ).rejects.toThrow('mantissa is only accepted with nSigFigs: 5');
+    expect(socket.sent).toEqual([]);
+  });
+
+  it('streams an aggregated l2Book over its own connection', async () => {
+    subscriptions = new WebSocketSubscriptions(
+      ws,
+      symbolConversion,
+      undefined,
+      () => new WebSocketClient(false)
+    );
+    const main = await connect();
+    const book = jest.fn();
+    const handle = await subscriptions.subscribeToL2Book('BTC', book, {
+      nSigFigs: 5,
+      mantissa: 2,
+    });
+    const lane = FakeWebSocket.latest();
+    expect(lane).not.toBe(main);
+    lane.open();
+    await flush();
+
+    expect(main.sentOfMethod('subscribe')).toEqual([]);
+    expect(lane.sentOfMethod('subscribe')).toEqual([
+      {
+        method: 'subscribe',
+        subscription: { type: 'l2Book', coin: 'BTC', nSigFigs: 5, mantissa: 2 },
+      },
+    ]);
+    lane.receive({
+      channel: 'l2Book',
+      data: { coin: 'BTC', levels: [[], []] },
+    });
+    await flush();
+    expect(book).toHaveBeenCalledTimes(1);
+
+    await handle.unsubscribe();
+    expect(lane.readyState).toBe(FakeWebSocket.CLOSED);
+  });
+
+  it('holds the connection while a handle is paused', async () => {
+    const socket = await connect();
+    const mids = jest.fn();
+    const handle = await subscriptions.subscribeToAllMids(mids);
+
+    handle.pause();
+    handle.pause();
+    socket.receive({ channel: 'allMids', data: { mids: { BTC: '1' } } });
+    await flush();
+    expect(mids).not.toHaveBeenCalled();
+
+    handle.resume();
+    await flush();
+    expect(mids).toHaveBeenCalledTimes(1);
+    expect(ws.isPaused()).toBe(false);
+  });
+});
@@ -2,12 +2,20 @@ import { InfoAPI } from './rest/info';
 import { ExchangeAPI } from './rest/exchange';
 import { WebSocketClient } from './websocket/connection';
 import { WebSocketSubscriptions } from './websocket/subscriptions';
+import { WebSocketPostClient } from './websocket/post';
+import { OrderBook } from './websocket/orderBook';
 import { RateLimiter } from './utils/rateLimiter';
 import * as CONSTANTS from './types/constants';
 import { CustomOperations } from './rest/custom';
-import { ethers } from 'ethers';
 import { SymbolConversion } from './utils/symbolConversion';
 import { AuthenticationError } from './utils/errors';
+import { PrivateKeySigner } from './utils/signer';
+import { NonceManager } from './utils/nonceManager';
+import type {
+  HyperliquidOptions,
+  HyperliquidSigner,
+  L2BookOptions,
+} from './types';
 export class Hyperliquid {
   public info: InfoAPI;
   public exchange: ExchangeAPI;
@@ -16,27 +24,50 @@ export class Hyperliquid {
   public custom: CustomOperations;
 
   private rateLimiter: RateLimiter;
+  private ownsRateLimiter: boolean;
   private symbolConversion: SymbolConversion;
-  private isValidPrivateKey: boolean = false;
+  private wsPost: WebSocketPostClient;
+  private nonceManager: NonceManager;
+  private isValidSigner: boolean = false;
   private walletAddress: string | null = null;
+  private options: HyperliquidOptions;
 
   constructor(
-    privateKey: string | null = null,
+    privateKeyOrSigner: string | HyperliquidSigner | null = null,
     testnet: boolean = false,
-    walletAddress: string | null = null
+    walletAddress: string | null = null,
+    options: HyperliquidOptions = {}
   ) {
     const baseURL = testnet
       ? CONSTANTS.BASE_URLS.TESTNET
       : CONSTANTS.BASE_URLS.PRODUCTION;
 
-    this.rateLimiter = new RateLimiter();
-    this.symbolConversion = new SymbolConversion(baseURL, this.rateLimiter);
+    // A limiter passed in is shared with other clients and outlives this one
+    this.ownsRateLimiter = options.rateLimiter === undefined;
+    this.rateLimiter =
+      options.rateLimiter ?? new RateLimiter(options.rateLimiterOptions);
+    this.symbolConversion = new SymbolConversion(
+      baseURL,
+      this.rateLimiter,
+      options.numericMode,
+      options.requestOptions,
+      options.transport
+    );
 
-    this.info = new InfoAPI(baseURL, this.rateLimiter, this.symbolConversion);
-    this.ws = new WebSocketClient(testnet);
+    this.info = new InfoAPI(
+      baseURL,
+      this.rateLimiter,
+      this.symbolConversion,
+      options.requestOptions,
+      options.transport
+    );
+    this.ws = new WebSocketClient(testnet, options.webSocket);
+    this.wsPost = new WebSocketPostClient(this.ws);
     this.subscriptions = new WebSocketSubscriptions(
       this.ws,
-      this.symbolConversion
+      this.symbolConversion,
+      this.wsPost,
+      () => new WebSocketClient(testnet, options.webSocket)
     );
 
     // Create proxy objects for exchange and custom
@@ -44,9 +75,18 @@ export class Hyperliquid {
     this.custom = this.createAuthenticatedProxy(CustomOperations);
 
     this.walletAddress = walletAddress;
+    this.options = options;
 
-    if (privateKey) {
-      this.initializeWithPrivateKey(privateKey, testnet);
+    // Keep nonces aligned with the server clock whenever webData2 reports it
+    this.nonceManager = options.nonceManager ?? NonceManager.getShared();
+    this.ws.on('message', (message: any) => {
+      if (message.channel === 'webData2' && message.data?.serverTime) {
+        this.nonceManager.syncServerTime(message.data.serverTime);
+      }
+    });
+
+    if (privateKeyOrSigner) {
+      this.initializeWithSigner(privateKeyOrSigner, testnet);
     }
   }
 
@@ -55,9 +95,9 @@ export class Hyperliquid {
   ): T {
     return new Proxy({} as T, {
       get: (target, prop) => {
-        if (!this.isValidPrivateKey) {
+        if (!this.isValidSigner) {
           throw new AuthenticationError(
-            'Invalid or missing private key. This method requires authentication.'
+            'Invalid or missing private key or signer. This method requires authentication.'
           );
         }
         return target[prop as keyof T];
@@ -65,46 +105,87 @@ export class Hyperliquid {
     });
   }
 
-  private initializeWithPrivateKey(
-    privateKey: string,
+  private initializeWithSigner(
+    privateKeyOrSigner: string | HyperliquidSigner,
     testnet: boolean = false
   ): void {
     try {
-      const formattedPrivateKey = privateKey.startsWith('0x')
-        ? privateKey
-        : (`0x${privateKey}` as `0x${string}`);
-      new ethers.Wallet(formattedPrivateKey); // Validate the private key
+      // Constructing the signer validates the private key
+      const signer =
+        typeof privateKeyOrSigner === 'string'
+          ? new PrivateKeySigner(privateKeyOrSigner)
+          : privateKeyOrSigner;
 
       this.exchange = new ExchangeAPI(
         testnet,
-        formattedPrivateKey,
+        signer,
         this.info,
         this.rateLimiter,
-        this.symbolConversion
+        this.symbolConversion,
+        this.walletAddress,
+        this.nonceManager,
+        this.options.requestOptions,
+        this.options.transport,
+        this.wsPost
       );
+      if (this.options.builder) {
+        this.exchange.setDefaultBuilder(this.options.builder);
+      }
+      if (this.options.vaultAddress) {
+        this.exchange.setDefaultVaultAddress(this.options.vaultAddress);
+      }
+      if (this.options.expiresAfterMs !== undefined) {
+        this.exchange.setDefaultExpiresAfterMs(this.options.expiresAfterMs);
+      }
+      if (this.options.actionTransport) {
+        this.exchange.setActionTransport(this.options.actionTransport);
+      }
       this.custom = new CustomOperations(
         this.exchange,
         this.info,
-        formattedPrivateKey,
+        signer,
         this.symbolConversion,
         this.walletAddress
       );
-      this.isValidPrivateKey = true;
+      this.isValidSigner = true;
     } catch (error) {
       console.warn(
         'Invalid private key provided. Some functionalities will be limited.'
       );
-      this.isValidPrivateKey = false;
+      this.isValidSigner = false;
     }
   }
 
   public isAuthenticated(): boolean {
-    return this.isValidPrivateKey;
+    return this.isValidSigner;
+  }
+
+  // Request weight left in the current one-minute window, shared by info and exchange requests
+  public getRemainingRequestWeight(): number {
+    return this.rateLimiter.getRemainingWeight();
+  }
+
+  public getRateLimiter(): RateLimiter {
+    return this.rateLimiter;
+  }
+
+  public getNonceManager(): NonceManager {
+    return this.nonceManager;
+  }
+
+  // Local order book for coin, kept current over the WebSocket until its stop() is called
+  async watchOrderBook(
+    coin: string,
+    options: L2BookOptions = {}
+  ): Promise<OrderBook> {
+    const book = new OrderBook(coin, this.info, this.subscriptions, options);
+    await book.start();
+    return book;
   }
 
   async connect(): Promise<void> {
     await this.ws.connect();
-    if (!this.isValidPrivateKey) {
+    if (!this.isValidSigner) {
       console.warn(
         'Not authenticated. Some WebSocket functionalities may be limited.'
       );
@@ -114,6 +195,25 @@ export class Hyperliquid {
   disconnect(): void {
     this.ws.close();
   }
+
+  // Shuts the client down: closes the WebSocket, stops symbol refreshes and, unless the limiter is shared, rejects requests still waiting for it
+  dispose(): void {
+    this.ws.close();
+    this.ws.removeAllListeners();
+    this.symbolConversion.stopPeriodicRefresh();
+    if (this.ownsRateLimiter) {
+      this.rateLimiter.dispose();
+    }
+  }
 }
 
 export default Hyperliquid;
+export * from './utils/errors';
+export * from './utils/signer';
+export * from './utils/nonceManager';
+export * from './utils/precision';
+export * from './utils/decimal';
+export * from './utils/transport';
+export * from './utils/rateLimiter';
+export { OrderBook } from './websocket/orderBook';
+export * from './websocket/streams';
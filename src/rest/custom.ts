@@ -1,6 +1,5 @@
 // src/rest/custom.ts
 
-import { ethers } from 'ethers';
 import { InfoAPI } from './info';
 import { ExchangeAPI } from './exchange';
 import type {
@@ -11,40 +10,96 @@ import type {
   UserOpenOrders,
   TriggerOrderTypeWire,
   Order,
+  HyperliquidSigner,
+  DecimalValue,
 } from '../types';
 import type { CancelOrderResponse } from '../utils/signing';
 import { SymbolConversion } from '../utils/symbolConversion';
+import { roundPriceForSide } from '../utils/precision';
 
 export class CustomOperations {
   private exchange: ExchangeAPI;
   private infoApi: InfoAPI;
-  private wallet: ethers.Wallet;
+  private signer: HyperliquidSigner;
   private symbolConversion: SymbolConversion;
   private walletAddress: string | null;
+  private subAccount: string | null = null;
 
   /**
    * Constructor for CustomOperations class.
    *
    * @param exchange - The ExchangeAPI instance.
    * @param infoApi - The InfoAPI instance.
-   * @param privateKey - The Ethereum wallet private key.
+   * @param signer - The signer used by the exchange, whose address is the default account.
    * @param symbolConversion - The SymbolConversion instance.
    * @param walletAddress - The Ethereum wallet address, optional.
    */
   constructor(
     exchange: ExchangeAPI,
     infoApi: InfoAPI,
-    privateKey: string,
+    signer: HyperliquidSigner,
     symbolConversion: SymbolConversion,
     walletAddress: string | null = null
   ) {
     this.exchange = exchange;
     this.infoApi = infoApi;
-    this.wallet = new ethers.Wallet(privateKey);
+    this.signer = signer;
     this.symbolConversion = symbolConversion;
     this.walletAddress = walletAddress;
   }
 
+  /**
+   * Resolves the account whose state is queried. When trading through an agent (API wallet)
+   * this is the master walletAddress, not the agent's own address.
+   *
+   * @returns The address of the account orders are placed for.
+   */
+  private async getUserAddress(): Promise<string> {
+    return this.walletAddress || (await this.signer.getAddress());
+  }
+
+  /**
+   * Sets the sub-account that trading helpers act on. Orders are signed by this wallet
+   * and sent with the sub-account as vaultAddress, positions are read from the sub-account.
+   *
+   * @param subAccountUser - The sub-account address, or null to trade on the main account again.
+   */
+  setSubAccount(subAccountUser: string | null): void {
+    this.subAccount = subAccountUser;
+  }
+
+  /**
+   * Returns the sub-account trading helpers currently act on.
+   *
+   * @returns The sub-account address, or null when trading on the main account.
+   */
+  getSubAccount(): string | null {
+    return this.subAccount;
+  }
+
+  /**
+   * Resolves the account whose orders and positions the trading helpers act on.
+   *
+   * @returns The targeted sub-account, else the exchange's default vault, else the user address.
+   */
+  private async getTargetAddress(): Promise<string> {
+    return (
+      this.subAccount ||
+      this.exchange.getDefaultVaultAddress() ||
+      (await this.getUserAddress())
+    );
+  }
+
+  /**
+   * Builds the vaultAddress field that routes an action to the targeted sub-account.
+   * Without one the exchange's default vault, if any, applies.
+   *
+   * @returns An object to spread into an OrderRequest or L1ActionOptions.
+   */
+  private getVaultParams(): { vaultAddress?: string } {
+    return this.subAccount ? { vaultAddress: this.subAccount } : {};
+  }
+
   /**
    * Cancels all open orders for a given symbol or all symbols if no symbol is provided.
    *
@@ -53,7 +108,7 @@ export class CustomOperations {
    */
   async cancelAllOrders(symbol?: string): Promise<CancelOrderResponse> {
     try {
-      const address = this.walletAddress || this.wallet.address;
+      const address = await this.getTargetAddress();
       const openOrders: UserOpenOrders =
         await this.infoApi.getUserOpenOrders(address);
 
@@ -82,7 +137,10 @@ export class CustomOperations {
         })
       );
 
-      const response = await this.exchange.cancelOrder(cancelRequests);
+      const response = await this.exchange.cancelOrder(
+        cancelRequests,
+        this.getVaultParams()
+      );
       return response;
     } catch (error) {
       throw error;
@@ -102,6 +160,7 @@ export class CustomOperations {
 
   /**
    * Calculates the slippage price for a given symbol, direction, and slippage percentage.
+   * The price is rounded to the asset's tick size, buys down and sells up.
    *
    * @param symbol - The trading symbol.
    * @param isBuy - Indicates if the order is a buy or sell.
@@ -113,20 +172,21 @@ export class CustomOperations {
     symbol: string,
     isBuy: boolean,
     slippage: number,
-    px?: number
+    px?: DecimalValue
   ): Promise<number> {
     const convertedSymbol = await this.symbolConversion.convertSymbol(symbol);
+    let price = Number(px);
     if (!px) {
       const allMids = await this.infoApi.getAllMids();
-      px = Number(allMids[convertedSymbol]);
+      price = Number(allMids[convertedSymbol]);
     }
 
-    const isSpot = symbol.includes('-SPOT');
-    //If not isSpot count how many decimals price has to use the same amount for rounding
-    const decimals = px.toString().split('.')[1]?.length || 1;
+    const isSpot = convertedSymbol.endsWith('-SPOT');
+    const szDecimals =
+      (await this.symbolConversion.getSzDecimals(convertedSymbol)) ?? 0;
 
-    px *= isBuy ? 1 + slippage : 1 - slippage;
-    return Number(px.toFixed(isSpot ? 8 : decimals - 1));
+    price *= isBuy ? 1 + slippage : 1 - slippage;
+    return roundPriceForSide(price, szDecimals, isSpot, isBuy);
   }
 
   /**
@@ -143,8 +203,8 @@ export class CustomOperations {
   async marketOpen(
     symbol: string,
     isBuy: boolean,
-    size: number,
-    px?: number,
+    size: DecimalValue,
+    px?: DecimalValue,
     triggers?: TriggerOrderTypeWire[],
     slippage: number = this.DEFAULT_SLIPPAGE
   ): Promise<OrderResponse> {
@@ -195,6 +255,7 @@ export class CustomOperations {
     const orderRequest: OrderRequest = {
       orders: orders,
       grouping: triggers && triggers.length > 0 ? 'normalTpsl' : 'na',
+      ...this.getVaultParams(),
     };
 
     return this.exchange.placeOrder(orderRequest);
@@ -213,7 +274,7 @@ export class CustomOperations {
   async makePositionTpSl(
     symbol: string,
     isBuy: boolean,
-    size: number,
+    size: DecimalValue,
     triggers?: TriggerOrderTypeWire[],
     slippage: number = this.DEFAULT_SLIPPAGE
   ): Promise<OrderResponse> {
@@ -244,6 +305,7 @@ export class CustomOperations {
     const orderRequest: OrderRequest = {
       orders: orders,
       grouping: 'positionTpsl',
+      ...this.getVaultParams(),
     };
 
     return this.exchange.placeOrdersTpSl(orderRequest);
@@ -261,13 +323,13 @@ export class CustomOperations {
    */
   async marketClose(
     symbol: string,
-    size?: number,
-    px?: number,
+    size?: DecimalValue,
+    px?: DecimalValue,
     slippage: number = this.DEFAULT_SLIPPAGE,
     cloid?: string
   ): Promise<OrderResponse> {
     const convertedSymbol = await this.symbolConversion.convertSymbol(symbol);
-    const address = this.walletAddress || this.wallet.address;
+    const address = await this.getTargetAddress();
     const positions =
       await this.infoApi.perpetuals.getClearinghouseState(address);
     for (const position of positions.assetPositions) {
@@ -276,7 +338,12 @@ export class CustomOperations {
         continue;
       }
       const szi = parseFloat(item.szi);
-      const closeSize = size || Math.abs(szi);
+      // Keep the exact position size as a string in numericMode 'string'
+      const closeSize =
+        size ||
+        (typeof item.szi === 'string'
+          ? item.szi.replace('-', '')
+          : Math.abs(szi));
       const isBuy = szi < 0;
 
       // Get aggressive Market Price
@@ -295,6 +362,7 @@ export class CustomOperations {
         limit_px: slippagePrice,
         order_type: { limit: { tif: 'Ioc' } } as OrderType,
         reduce_only: true,
+        ...this.getVaultParams(),
       };
 
       if (cloid) {
@@ -317,7 +385,7 @@ export class CustomOperations {
     slippage: number = this.DEFAULT_SLIPPAGE
   ): Promise<OrderResponse[]> {
     try {
-      const address = this.walletAddress || this.wallet.address;
+      const address = await this.getTargetAddress();
       const positions =
         await this.infoApi.perpetuals.getClearinghouseState(address);
       const closeOrders: Promise<OrderResponse>[] = [];
@@ -355,8 +423,8 @@ export class CustomOperations {
   async limitOpen(
     symbol: string,
     isBuy: boolean,
-    size: number,
-    px: number,
+    size: DecimalValue,
+    px: DecimalValue,
     triggers?: TriggerOrderTypeWire[],
     slippage: number = this.DEFAULT_SLIPPAGE
   ): Promise<OrderResponse> {
@@ -397,6 +465,7 @@ export class CustomOperations {
     const orderRequest: OrderRequest = {
       orders: orders,
       grouping: triggers && triggers!.length > 0 ? 'normalTpsl' : 'na',
+      ...this.getVaultParams(),
     };
 
     return this.exchange.placeOrder(orderRequest);
@@ -1,6 +1,10 @@
-import { ethers } from 'ethers';
-import { RateLimiter } from '../utils/rateLimiter';
-import { HttpApi } from '../utils/helpers';
+import {
+  RateLimiter,
+  getBatchLength,
+  getExchangePriority,
+  getExchangeWeight,
+} from '../utils/rateLimiter';
+import { DEFAULT_REQUEST_OPTIONS, HttpApi } from '../utils/helpers';
 import { InfoAPI } from './info';
 import {
   signL1Action,
@@ -9,35 +13,283 @@ import {
   signUserSignedAction,
   signUsdTransferAction,
   signWithdrawFromBridgeAction,
+  signAgent,
   orderToWire,
+  twapOrderToWire,
+  floatToUsdInt,
 } from '../utils/signing';
+import {
+  AuthenticationError,
+  BuilderFeeNotApprovedError,
+  HyperliquidAPIError,
+} from '../utils/errors';
 import * as CONSTANTS from '../types/constants';
 
-import type { CancelOrderRequest, Order, OrderRequest } from '../types/index';
+import type {
+  ActionRequestOptions,
+  ActionTransport,
+  Builder,
+  CancelOrderRequest,
+  L1ActionOptions,
+  CreateSubAccountResponse,
+  CreateVaultResponse,
+  DecimalValue,
+  ExpiryOptions,
+  HyperliquidSigner,
+  HttpTransport,
+  Order,
+  OrderRequest,
+  RequestOptions,
+  TwapCancelResponse,
+  TwapOrder,
+  TwapOrderResponse,
+  UserRateLimit,
+} from '../types/index';
 
 import { ExchangeType, ENDPOINTS } from '../types/constants';
 import { SymbolConversion } from '../utils/symbolConversion';
+import { NonceManager } from '../utils/nonceManager';
+import type { WebSocketPostClient } from '../websocket/post';
 
 export class ExchangeAPI {
-  private wallet: ethers.Wallet;
+  private signer: HyperliquidSigner;
   private httpApi: HttpApi;
   private symbolConversion: SymbolConversion;
+  private infoApi: InfoAPI;
+  private walletAddress: string | null;
+  private defaultBuilder: Builder | null = null;
+  private defaultVaultAddress: string | null = null;
+  private defaultExpiresAfterMs: number | null = null;
+  private approvedBuilderFees: Map<string, number> = new Map();
+  private nonceManager: NonceManager;
+  private rateLimiter: RateLimiter;
+  private requestOptions: RequestOptions;
+  private wsPost: WebSocketPostClient | null;
+  private actionTransport: ActionTransport = 'auto';
   private IS_MAINNET = true;
 
   constructor(
     testnet: boolean,
-    privateKey: string,
-    _: InfoAPI,
+    signer: HyperliquidSigner,
+    infoApi: InfoAPI,
     rateLimiter: RateLimiter,
-    symbolConversion: SymbolConversion
+    symbolConversion: SymbolConversion,
+    walletAddress: string | null = null,
+    nonceManager: NonceManager = NonceManager.getShared(),
+    requestOptions: RequestOptions = {},
+    transport?: HttpTransport,
+    wsPost: WebSocketPostClient | null = null
   ) {
     const baseURL = testnet
       ? CONSTANTS.BASE_URLS.TESTNET
       : CONSTANTS.BASE_URLS.PRODUCTION;
     this.IS_MAINNET = !testnet;
-    this.httpApi = new HttpApi(baseURL, ENDPOINTS.EXCHANGE, rateLimiter);
-    this.wallet = new ethers.Wallet(privateKey);
+    // Signed actions are never retried: after a timeout the first attempt may have executed,
+    // and resending it fails on its used nonce, hiding the real outcome from the caller
+    this.httpApi = new HttpApi(
+      baseURL,
+      ENDPOINTS.EXCHANGE,
+      rateLimiter,
+      { ...requestOptions, retries: 0 },
+      transport
+    );
+    this.signer = signer;
     this.symbolConversion = symbolConversion;
+    this.infoApi = infoApi;
+    this.walletAddress = walletAddress;
+    this.nonceManager = nonceManager;
+    this.rateLimiter = rateLimiter;
+    this.requestOptions = requestOptions;
+    this.wsPost = wsPost;
+  }
+
+  // Builder attached to every order that doesn't specify its own, pass null to stop attaching one
+  setDefaultBuilder(builder: Builder | null): void {
+    this.defaultBuilder = builder;
+  }
+
+  getDefaultBuilder(): Builder | null {
+    return this.defaultBuilder;
+  }
+
+  // Vault (or sub-account) L1 actions are performed for when a call doesn't pass its own vaultAddress
+  setDefaultVaultAddress(vaultAddress: string | null): void {
+    this.defaultVaultAddress = vaultAddress;
+  }
+
+  getDefaultVaultAddress(): string | null {
+    return this.defaultVaultAddress;
+  }
+
+  // An undefined vaultAddress falls back to the default vault, null explicitly targets the signer's own account
+  private resolveVaultAddress(vaultAddress?: string | null): string | null {
+    return vaultAddress === undefined ? this.defaultVaultAddress : vaultAddress;
+  }
+
+  // 'auto' sends signed actions over the WebSocket post channel while it's open and over REST otherwise,
+  // 'ws' and 'http' force one transport
+  setActionTransport(actionTransport: ActionTransport): void {
+    this.actionTransport = actionTransport;
+  }
+
+  getActionTransport(): ActionTransport {
+    return this.actionTransport;
+  }
+
+  // Posts a signed payload over the chosen transport. Both return the same { status, response } body.
+  // Per-call options only carry timeout and signal: signed actions stay unretried
+  private async sendAction(
+    payload: any,
+    { timeout: callTimeout, signal: callSignal }: ActionRequestOptions = {}
+  ): Promise<any> {
+    const callOptions: ActionRequestOptions = {
+      ...(callTimeout !== undefined ? { timeout: callTimeout } : {}),
+      ...(callSignal !== undefined ? { signal: callSignal } : {}),
+    };
+    const wsPost = this.wsPost;
+    const wsAvailable = wsPost !== null && wsPost.isAvailable();
+    if (
+      this.actionTransport === 'http' ||
+      (this.actionTransport === 'auto' && !wsAvailable)
+    ) {
+      return this.httpApi.makeRequest(
+        payload,
+        undefined,
+        undefined,
+        callOptions
+      );
+    }
+    if (wsPost === null || !wsAvailable) {
+      throw new HyperliquidAPIError(
+        'WS_NOT_CONNECTED',
+        'WebSocket is not connected, connect() first or use the http action transport'
+      );
+    }
+    const { timeout, priority, signal } = {
+      ...DEFAULT_REQUEST_OPTIONS,
+      ...this.requestOptions,
+      ...callOptions,
+    };
+    await this.rateLimiter.waitForToken(
+      getExchangeWeight(payload.action),
+      getExchangePriority(payload.action, priority),
+      signal
+    );
+    return wsPost.post('action', payload, timeout, signal);
+  }
+
+  // Time-to-live applied to L1 actions that don't pass their own expiresAfter, null disables expiry
+  setDefaultExpiresAfterMs(ttlMs: number | null): void {
+    this.defaultExpiresAfterMs = ttlMs;
+  }
+
+  getDefaultExpiresAfterMs(): number | null {
+    return this.defaultExpiresAfterMs;
+  }
+
+  // An undefined expiresAfter falls back to nonce + the default TTL, null sends the action without expiry
+  private resolveExpiresAfter(
+    nonce: number,
+    expiresAfter?: number | null
+  ): number | null {
+    if (expiresAfter !== undefined) {
+      return expiresAfter;
+    }
+    return this.defaultExpiresAfterMs === null
+      ? null
+      : nonce + this.defaultExpiresAfterMs;
+  }
+
+  // Signs and sends an L1 action, actions that embed their own nonce pass it so the payload matches
+  private async postL1Action(
+    action: any,
+    { vaultAddress, expiresAfter, timeout, signal }: L1ActionOptions = {},
+    { isFrontend = false, nonce = this.nonceManager.next() } = {}
+  ): Promise<any> {
+    const activePool = this.resolveVaultAddress(vaultAddress);
+    const expiry = this.resolveExpiresAfter(nonce, expiresAfter);
+    const signature = await signL1Action(
+      this.signer,
+      action,
+      activePool,
+      nonce,
+      this.IS_MAINNET,
+      expiry
+    );
+
+    const payload = {
+      action,
+      ...(isFrontend ? { isFrontend } : {}),
+      nonce,
+      signature,
+      vaultAddress: activePool,
+      ...(expiry !== null ? { expiresAfter: expiry } : {}),
+    };
+    const response = await this.sendAction(payload, { timeout, signal });
+    // Every order, cancel or modify in a batch counts against the acting address' budget
+    this.rateLimiter.consumeAddressBudget(
+      activePool ?? (await this.getUserAddress()),
+      Math.max(1, getBatchLength(action))
+    );
+    return response;
+  }
+
+  // Seeds the limiter's per-address action budget from the exchange, see getRemainingActions
+  async syncRateLimit(address?: string): Promise<UserRateLimit> {
+    const user = address ?? (await this.getUserAddress());
+    const rateLimit = await this.infoApi.getUserRateLimit(user, true);
+    this.rateLimiter.seedAddressBudget(user, rateLimit);
+    return rateLimit;
+  }
+
+  // Actions the address can still send before being throttled, undefined until syncRateLimit has run
+  async getRemainingActions(address?: string): Promise<number | undefined> {
+    return this.rateLimiter.getRemainingAddressActions(
+      address ?? (await this.getUserAddress())
+    );
+  }
+
+  // The account actions are executed for: the master wallet when trading as an agent, otherwise the signer
+  async getUserAddress(): Promise<string> {
+    return this.walletAddress || (await this.signer.getAddress());
+  }
+
+  // True when the signer is an approved agent (API wallet) acting for walletAddress
+  async isAgent(): Promise<boolean> {
+    if (this.walletAddress === null) {
+      return false;
+    }
+    const signerAddress = await this.signer.getAddress();
+    return this.walletAddress.toLowerCase() !== signerAddress.toLowerCase();
+  }
+
+  // Agents can only sign L1 actions, user-signed actions need the master wallet's key
+  private async ensureNotAgent(actionName: string): Promise<void> {
+    if (await this.isAgent()) {
+      throw new AuthenticationError(
+        `${actionName} must be signed by the master wallet and cannot be performed by an agent wallet.`
+      );
+    }
+  }
+
+  // Fails before signing when the user hasn't approved at least the builder's fee
+  private async ensureBuilderApproved(builder: Builder): Promise<void> {
+    const builderAddress = builder.address.toLowerCase();
+    let maxFee = this.approvedBuilderFees.get(builderAddress);
+    if (maxFee === undefined || maxFee < builder.fee) {
+      maxFee = await this.infoApi.getMaxBuilderFee(
+        await this.getUserAddress(),
+        builderAddress
+      );
+      this.approvedBuilderFees.set(builderAddress, maxFee);
+    }
+    if (maxFee < builder.fee) {
+      throw new BuilderFeeNotApprovedError(
+        builder.address,
+        builder.fee,
+        maxFee
+      );
+    }
   }
 
   private async getAssetIndex(symbol: string): Promise<number> {
@@ -49,16 +301,22 @@ export class ExchangeAPI {
   }
 
   // Create a normal order
-  async placeOrder(orderRequest: OrderRequest): Promise<any> {
+  async placeOrder(
+    orderRequest: OrderRequest,
+    requestOptions: ActionRequestOptions = {}
+  ): Promise<any> {
     const {
       orders,
-      vaultAddress = null,
       grouping = 'na',
-      builder,
+      builder = this.defaultBuilder ?? undefined,
     } = orderRequest;
     const ordersArray = orders ?? [orderRequest as Order];
 
     try {
+      if (builder) {
+        await this.ensureBuilderApproved(builder);
+      }
+
       const assetIndexCache = new Map<string, number>();
 
       const orderWires = await Promise.all(
@@ -68,29 +326,20 @@ export class ExchangeAPI {
             assetIndex = await this.getAssetIndex(o.coin);
             assetIndexCache.set(o.coin, assetIndex);
           }
-          return orderToWire(o, assetIndex);
+          return orderToWire(
+            o,
+            assetIndex,
+            await this.symbolConversion.getSzDecimals(o.coin)
+          );
         })
       );
 
       const actions = orderWiresToOrderAction(orderWires, grouping, builder);
-      const nonce = Date.now();
-      const signature = await signL1Action(
-        this.wallet,
+      const res = await this.postL1Action(
         actions,
-        vaultAddress,
-        nonce,
-        this.IS_MAINNET
+        { ...orderRequest, ...requestOptions },
+        { isFrontend: true }
       );
-
-      const payload = {
-        action: actions,
-        isFrontend: true,
-        nonce,
-        signature,
-        vaultAddress,
-      };
-
-      const res = await this.httpApi.makeRequest(payload, 1);
       return res;
     } catch (error) {
       throw error;
@@ -98,12 +347,19 @@ export class ExchangeAPI {
   }
 
   // Create a TP/SL order
-  async placeOrdersTpSl(orderRequest: OrderRequest): Promise<any> {
-    const { orders, vaultAddress = null, builder } = orderRequest;
+  async placeOrdersTpSl(
+    orderRequest: OrderRequest,
+    requestOptions: ActionRequestOptions = {}
+  ): Promise<any> {
+    const { orders, builder = this.defaultBuilder ?? undefined } = orderRequest;
     const ordersArray = orders ?? [orderRequest as Order];
     const grouping = 'positionTpsl';
 
     try {
+      if (builder) {
+        await this.ensureBuilderApproved(builder);
+      }
+
       const assetIndexCache = new Map<string, number>();
       const orderWires = await Promise.all(
         ordersArray.map(async (o: Order) => {
@@ -112,24 +368,60 @@ export class ExchangeAPI {
             assetIndex = await this.getAssetIndex(o.coin);
             assetIndexCache.set(o.coin, assetIndex);
           }
-          return orderToWire(o, assetIndex);
+          return orderToWire(
+            o,
+            assetIndex,
+            await this.symbolConversion.getSzDecimals(o.coin)
+          );
         })
       );
 
       const actions = orderWiresToOrderAction(orderWires, grouping, builder);
-      const nonce = Date.now();
-      const signature = await signL1Action(
-        this.wallet,
-        actions,
-        orderRequest.vaultAddress || null,
-        nonce,
-        this.IS_MAINNET
-      );
+      const res = await this.postL1Action(actions, {
+        ...orderRequest,
+        ...requestOptions,
+      });
+      return res;
+    } catch (error) {
+      throw error;
+    }
+  }
 
-      const payload = { action: actions, nonce, signature, vaultAddress };
+  //Place a native TWAP order, the exchange splits it into slices executed over twapOrder.minutes
+  async placeTwapOrder(
+    twapOrder: TwapOrder,
+    options: L1ActionOptions = {}
+  ): Promise<TwapOrderResponse> {
+    try {
+      const assetIndex = await this.getAssetIndex(twapOrder.coin);
+      const action = {
+        type: ExchangeType.TWAP_ORDER,
+        twap: twapOrderToWire(
+          twapOrder,
+          assetIndex,
+          await this.symbolConversion.getSzDecimals(twapOrder.coin)
+        ),
+      };
+      return this.postL1Action(action, options);
+    } catch (error) {
+      throw error;
+    }
+  }
 
-      const res = await this.httpApi.makeRequest(payload, 1);
-      return res;
+  //Cancel a running TWAP order using the twapId returned by placeTwapOrder
+  async cancelTwapOrder(
+    symbol: string,
+    twapId: number,
+    options: L1ActionOptions = {}
+  ): Promise<TwapCancelResponse> {
+    try {
+      const assetIndex = await this.getAssetIndex(symbol);
+      const action = {
+        type: ExchangeType.TWAP_CANCEL,
+        a: assetIndex,
+        t: twapId,
+      };
+      return this.postL1Action(action, options);
     } catch (error) {
       throw error;
     }
@@ -137,7 +429,8 @@ export class ExchangeAPI {
 
   //Cancel using order id (oid)
   async cancelOrder(
-    cancelRequests: CancelOrderRequest | CancelOrderRequest[]
+    cancelRequests: CancelOrderRequest | CancelOrderRequest[],
+    options: L1ActionOptions = {}
   ): Promise<CancelOrderResponse> {
     try {
       const cancels = Array.isArray(cancelRequests)
@@ -157,68 +450,50 @@ export class ExchangeAPI {
         cancels: cancelsWithIndices.map(({ a, o }) => ({ a, o })),
       };
 
-      const nonce = Date.now();
-      const signature = await signL1Action(
-        this.wallet,
-        action,
-        null,
-        nonce,
-        this.IS_MAINNET
-      );
-
-      const payload = { action, nonce, signature };
-      return this.httpApi.makeRequest(payload, 1);
+      return this.postL1Action(action, options);
     } catch (error) {
       throw error;
     }
   }
 
   //Cancel using a CLOID
-  async cancelOrderByCloid(symbol: string, cloid: string): Promise<any> {
+  async cancelOrderByCloid(
+    symbol: string,
+    cloid: string,
+    options: L1ActionOptions = {}
+  ): Promise<any> {
     try {
       const assetIndex = await this.getAssetIndex(symbol);
       const action = {
         type: ExchangeType.CANCEL_BY_CLOID,
         cancels: [{ asset: assetIndex, cloid }],
       };
-      const nonce = Date.now();
-      const signature = await signL1Action(
-        this.wallet,
-        action,
-        null,
-        nonce,
-        this.IS_MAINNET
-      );
-
-      const payload = { action, nonce, signature };
-      return this.httpApi.makeRequest(payload, 1);
+      return this.postL1Action(action, options);
     } catch (error) {
       throw error;
     }
   }
 
   //Modify a single order
-  async modifyOrder(oid: number, orderRequest: Order): Promise<any> {
+  async modifyOrder(
+    oid: number,
+    orderRequest: Order,
+    options: L1ActionOptions = {}
+  ): Promise<any> {
     try {
       const assetIndex = await this.getAssetIndex(orderRequest.coin);
 
-      const orderWire = orderToWire(orderRequest, assetIndex);
+      const orderWire = orderToWire(
+        orderRequest,
+        assetIndex,
+        await this.symbolConversion.getSzDecimals(orderRequest.coin)
+      );
       const action = {
         type: ExchangeType.MODIFY,
         oid,
         order: orderWire,
       };
-      const nonce = Date.now();
-      const signature = await signL1Action(
-        this.wallet,
-        action,
-        null,
-        nonce,
-        this.IS_MAINNET
-      );
-
-      const payload = { action, nonce, signature };
-      return this.httpApi.makeRequest(payload, 1);
+      return this.postL1Action(action, options);
     } catch (error) {
       throw error;
     }
@@ -226,13 +501,17 @@ export class ExchangeAPI {
 
   //Modify multiple orders at once
   async batchModifyOrders(
-    modifies: Array<{ oid: number; order: Order }>
+    modifies: Array<{ oid: number; order: Order }>,
+    options: L1ActionOptions = {}
   ): Promise<any> {
     try {
       // First, get all asset indices in parallel
       const assetIndices = await Promise.all(
         modifies.map((m) => this.getAssetIndex(m.order.coin))
       );
+      const szDecimals = await Promise.all(
+        modifies.map((m) => this.symbolConversion.getSzDecimals(m.order.coin))
+      );
 
       const action = {
         type: ExchangeType.BATCH_MODIFY,
@@ -240,22 +519,12 @@ export class ExchangeAPI {
           if (!assetIndices[index]) throw Error('non-existent assets');
           return {
             oid: m.oid,
-            order: orderToWire(m.order, assetIndices[index]),
+            order: orderToWire(m.order, assetIndices[index], szDecimals[index]),
           };
         }),
       };
 
-      const nonce = Date.now();
-      const signature = await signL1Action(
-        this.wallet,
-        action,
-        null,
-        nonce,
-        this.IS_MAINNET
-      );
-
-      const payload = { action, nonce, signature };
-      return this.httpApi.makeRequest(payload, 1);
+      return this.postL1Action(action, options);
     } catch (error) {
       throw error;
     }
@@ -265,7 +534,8 @@ export class ExchangeAPI {
   async updateLeverage(
     symbol: string,
     leverageMode: string,
-    leverage: number
+    leverage: number,
+    options: L1ActionOptions = {}
   ): Promise<any> {
     try {
       const assetIndex = await this.getAssetIndex(symbol);
@@ -275,17 +545,7 @@ export class ExchangeAPI {
         isCross: leverageMode === 'cross',
         leverage: leverage,
       };
-      const nonce = Date.now();
-      const signature = await signL1Action(
-        this.wallet,
-        action,
-        null,
-        nonce,
-        this.IS_MAINNET
-      );
-
-      const payload = { action, nonce, signature };
-      return this.httpApi.makeRequest(payload, 1);
+      return this.postL1Action(action, options);
     } catch (error) {
       throw error;
     }
@@ -295,7 +555,8 @@ export class ExchangeAPI {
   async updateIsolatedMargin(
     symbol: string,
     isBuy: boolean,
-    ntli: number
+    ntli: number,
+    options: L1ActionOptions = {}
   ): Promise<any> {
     try {
       const assetIndex = await this.getAssetIndex(symbol);
@@ -305,24 +566,19 @@ export class ExchangeAPI {
         isBuy,
         ntli,
       };
-      const nonce = Date.now();
-      const signature = await signL1Action(
-        this.wallet,
-        action,
-        null,
-        nonce,
-        this.IS_MAINNET
-      );
-
-      const payload = { action, nonce, signature };
-      return this.httpApi.makeRequest(payload, 1);
+      return this.postL1Action(action, options);
     } catch (error) {
       throw error;
     }
   }
 
   //Takes from the perps wallet and sends to another wallet without the $1 fee (doesn't touch bridge, so no fees)
-  async usdTransfer(destination: string, amount: number): Promise<any> {
+  async usdTransfer(
+    destination: string,
+    amount: DecimalValue,
+    options: ActionRequestOptions = {}
+  ): Promise<any> {
+    await this.ensureNotAgent('usdTransfer');
     try {
       const action = {
         type: ExchangeType.USD_SEND,
@@ -330,16 +586,16 @@ export class ExchangeAPI {
         signatureChainId: this.IS_MAINNET ? '0xa4b1' : '0x66eee',
         destination: destination,
         amount: amount.toString(),
-        time: Date.now(),
+        time: this.nonceManager.next(),
       };
       const signature = await signUsdTransferAction(
-        this.wallet,
+        this.signer,
         action,
         this.IS_MAINNET
       );
 
       const payload = { action, nonce: action.time, signature };
-      return this.httpApi.makeRequest(payload, 1);
+      return this.sendAction(payload, options);
     } catch (error) {
       throw error;
     }
@@ -349,8 +605,10 @@ export class ExchangeAPI {
   async spotTransfer(
     destination: string,
     token: string,
-    amount: string
+    amount: string,
+    options: ActionRequestOptions = {}
   ): Promise<any> {
+    await this.ensureNotAgent('spotTransfer');
     try {
       const action = {
         type: ExchangeType.SPOT_SEND,
@@ -359,10 +617,10 @@ export class ExchangeAPI {
         destination,
         token,
         amount,
-        time: Date.now(),
+        time: this.nonceManager.next(),
       };
       const signature = await signUserSignedAction(
-        this.wallet,
+        this.signer,
         action,
         [
           { name: 'hyperliquidChain', type: 'string' },
@@ -376,14 +634,19 @@ export class ExchangeAPI {
       );
 
       const payload = { action, nonce: action.time, signature };
-      return this.httpApi.makeRequest(payload, 1);
+      return this.sendAction(payload, options);
     } catch (error) {
       throw error;
     }
   }
 
   //Withdraw USDC, this txn goes across the bridge and costs $1 in fees as of writing this
-  async initiateWithdrawal(destination: string, amount: number): Promise<any> {
+  async initiateWithdrawal(
+    destination: string,
+    amount: DecimalValue,
+    options: ActionRequestOptions = {}
+  ): Promise<any> {
+    await this.ensureNotAgent('initiateWithdrawal');
     try {
       const action = {
         type: ExchangeType.WITHDRAW,
@@ -391,16 +654,16 @@ export class ExchangeAPI {
         signatureChainId: this.IS_MAINNET ? '0xa4b1' : '0x66eee',
         destination: destination,
         amount: amount.toString(),
-        time: Date.now(),
+        time: this.nonceManager.next(),
       };
       const signature = await signWithdrawFromBridgeAction(
-        this.wallet,
+        this.signer,
         action,
         this.IS_MAINNET
       );
 
       const payload = { action, nonce: action.time, signature };
-      return this.httpApi.makeRequest(payload, 1);
+      return this.sendAction(payload, options);
     } catch (error) {
       throw error;
     }
@@ -408,11 +671,13 @@ export class ExchangeAPI {
 
   //Transfer between spot and perpetual wallets (intra-account transfer)
   async transferBetweenSpotAndPerp(
-    usdc: number,
-    toPerp: boolean
+    usdc: DecimalValue,
+    toPerp: boolean,
+    options: ActionRequestOptions = {}
   ): Promise<any> {
+    await this.ensureNotAgent('transferBetweenSpotAndPerp');
     try {
-      const nonce = Date.now();
+      const nonce = this.nonceManager.next();
 
       const action = {
         amount: usdc.toString(),
@@ -424,7 +689,7 @@ export class ExchangeAPI {
       };
 
       const signature = await signUserSignedAction(
-        this.wallet,
+        this.signer,
         action,
         [
           { name: 'hyperliquidChain', type: 'string' },
@@ -436,7 +701,7 @@ export class ExchangeAPI {
         this.IS_MAINNET
       );
       const payload = { action, signature, nonce };
-      const res = await this.httpApi.makeRequest(payload, 1);
+      const res = await this.sendAction(payload, options);
       return res;
     } catch (error) {
       throw error;
@@ -444,20 +709,13 @@ export class ExchangeAPI {
   }
 
   //Schedule a cancel for a given time (in ms) //Note: Only available once you've traded $1 000 000 in volume
-  async scheduleCancel(time: number | null): Promise<any> {
+  async scheduleCancel(
+    time: number | null,
+    options: L1ActionOptions = {}
+  ): Promise<any> {
     try {
       const action = { type: ExchangeType.SCHEDULE_CANCEL, time };
-      const nonce = Date.now();
-      const signature = await signL1Action(
-        this.wallet,
-        action,
-        null,
-        nonce,
-        this.IS_MAINNET
-      );
-
-      const payload = { action, nonce, signature };
-      return this.httpApi.makeRequest(payload, 1);
+      return this.postL1Action(action, options);
     } catch (error) {
       throw error;
     }
@@ -467,7 +725,8 @@ export class ExchangeAPI {
   async vaultTransfer(
     vaultAddress: string,
     isDeposit: boolean,
-    usd: number
+    usd: number,
+    options: ExpiryOptions = {}
   ): Promise<any> {
     try {
       const action = {
@@ -476,39 +735,314 @@ export class ExchangeAPI {
         isDeposit,
         usd,
       };
-      const nonce = Date.now();
-      const signature = await signL1Action(
-        this.wallet,
-        action,
-        null,
+      return this.postL1Action(action, { ...options, vaultAddress: null });
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  //Create a vault led by this wallet, seeded with initialUsd USDC from the leader
+  async createVault(
+    name: string,
+    description: string,
+    initialUsd: DecimalValue,
+    options: ExpiryOptions = {}
+  ): Promise<CreateVaultResponse> {
+    try {
+      const nonce = this.nonceManager.next();
+      const action = {
+        type: ExchangeType.CREATE_VAULT,
+        name,
+        description,
+        initialUsd: floatToUsdInt(initialUsd),
         nonce,
-        this.IS_MAINNET
+      };
+      return this.postL1Action(
+        action,
+        { ...options, vaultAddress: null },
+        { nonce }
       );
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  //Update a led vault's settings, pass null to leave a setting unchanged
+  async vaultModify(
+    vaultAddress: string,
+    allowDeposits: boolean | null,
+    alwaysCloseOnWithdraw: boolean | null,
+    options: ExpiryOptions = {}
+  ): Promise<any> {
+    try {
+      const action = {
+        type: ExchangeType.VAULT_MODIFY,
+        vaultAddress,
+        allowDeposits,
+        alwaysCloseOnWithdraw,
+      };
+      return this.postL1Action(action, { ...options, vaultAddress: null });
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  //Distribute usd USDC of a led vault's equity to its depositors, pass 0 to close the vault
+  async vaultDistribute(
+    vaultAddress: string,
+    usd: DecimalValue,
+    options: ExpiryOptions = {}
+  ): Promise<any> {
+    try {
+      const action = {
+        type: ExchangeType.VAULT_DISTRIBUTE,
+        vaultAddress,
+        usd: floatToUsdInt(usd),
+      };
+      return this.postL1Action(action, { ...options, vaultAddress: null });
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  //Create a sub-account owned by this wallet, the response data holds the new sub-account address
+  async createSubAccount(
+    name: string,
+    options: ExpiryOptions = {}
+  ): Promise<CreateSubAccountResponse> {
+    try {
+      const action = {
+        type: ExchangeType.CREATE_SUB_ACCOUNT,
+        name,
+      };
+      return this.postL1Action(action, { ...options, vaultAddress: null });
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  //Move USDC between the master account and one of its sub-accounts (isDeposit moves funds into the sub-account)
+  async subAccountTransfer(
+    subAccountUser: string,
+    isDeposit: boolean,
+    usd: DecimalValue,
+    options: ExpiryOptions = {}
+  ): Promise<any> {
+    try {
+      const action = {
+        type: ExchangeType.SUB_ACCOUNT_TRANSFER,
+        subAccountUser,
+        isDeposit,
+        usd: floatToUsdInt(usd),
+      };
+      return this.postL1Action(action, { ...options, vaultAddress: null });
+    } catch (error) {
+      throw error;
+    }
+  }
 
-      const payload = { action, nonce, signature };
-      return this.httpApi.makeRequest(payload, 1);
+  //Move a spot token between the master account and one of its sub-accounts, token is formatted as name:tokenId
+  async subAccountSpotTransfer(
+    subAccountUser: string,
+    isDeposit: boolean,
+    token: string,
+    amount: string,
+    options: ExpiryOptions = {}
+  ): Promise<any> {
+    try {
+      const action = {
+        type: ExchangeType.SUB_ACCOUNT_SPOT_TRANSFER,
+        subAccountUser,
+        isDeposit,
+        token,
+        amount,
+      };
+      return this.postL1Action(action, { ...options, vaultAddress: null });
     } catch (error) {
       throw error;
     }
   }
 
-  async setReferrer(code: string): Promise<any> {
+  async setReferrer(code: string, options: ExpiryOptions = {}): Promise<any> {
     try {
       const action = {
         type: ExchangeType.SET_REFERRER,
         code,
       };
-      const nonce = Date.now();
-      const signature = await signL1Action(
-        this.wallet,
+      return this.postL1Action(action, { ...options, vaultAddress: null });
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  //Approve an agent (API wallet) to sign L1 actions such as orders and cancels on behalf of this account
+  async approveAgent(
+    agentAddress: string,
+    agentName: string | null = null,
+    options: ActionRequestOptions = {}
+  ): Promise<any> {
+    await this.ensureNotAgent('approveAgent');
+    try {
+      const action: any = {
+        type: ExchangeType.APPROVE_AGENT,
+        hyperliquidChain: this.IS_MAINNET ? 'Mainnet' : 'Testnet',
+        signatureChainId: this.IS_MAINNET ? '0xa4b1' : '0x66eee',
+        agentAddress,
+        agentName: agentName ?? '',
+        nonce: this.nonceManager.next(),
+      };
+      const signature = await signAgent(this.signer, action, this.IS_MAINNET);
+
+      // An unnamed agent is signed with an empty name but sent without the field
+      if (agentName === null) {
+        delete action.agentName;
+      }
+
+      const payload = { action, nonce: action.nonce, signature };
+      return this.sendAction(payload, options);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  //Approve a builder to charge up to maxFeeRate (a percentage string such as '0.01%') on orders it routes
+  async approveBuilderFee(
+    builder: string,
+    maxFeeRate: string,
+    options: ActionRequestOptions = {}
+  ): Promise<any> {
+    await this.ensureNotAgent('approveBuilderFee');
+    try {
+      const action = {
+        type: ExchangeType.APPROVE_BUILDER_FEE,
+        hyperliquidChain: this.IS_MAINNET ? 'Mainnet' : 'Testnet',
+        signatureChainId: this.IS_MAINNET ? '0xa4b1' : '0x66eee',
+        maxFeeRate,
+        builder: builder.toLowerCase(),
+        nonce: this.nonceManager.next(),
+      };
+      const signature = await signUserSignedAction(
+        this.signer,
         action,
-        null,
-        nonce,
+        [
+          { name: 'hyperliquidChain', type: 'string' },
+          { name: 'maxFeeRate', type: 'string' },
+          { name: 'builder', type: 'address' },
+          { name: 'nonce', type: 'uint64' },
+        ],
+        'HyperliquidTransaction:ApproveBuilderFee',
+        this.IS_MAINNET
+      );
+
+      const payload = { action, nonce: action.nonce, signature };
+      const res = await this.sendAction(payload, options);
+      this.approvedBuilderFees.delete(action.builder);
+      return res;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  //Move wei of the native token from the spot balance into the staking balance
+  async stakingDeposit(
+    wei: number,
+    options: ActionRequestOptions = {}
+  ): Promise<any> {
+    await this.ensureNotAgent('stakingDeposit');
+    try {
+      const action = {
+        type: ExchangeType.C_DEPOSIT,
+        hyperliquidChain: this.IS_MAINNET ? 'Mainnet' : 'Testnet',
+        signatureChainId: this.IS_MAINNET ? '0xa4b1' : '0x66eee',
+        wei,
+        nonce: this.nonceManager.next(),
+      };
+      const signature = await signUserSignedAction(
+        this.signer,
+        action,
+        [
+          { name: 'hyperliquidChain', type: 'string' },
+          { name: 'wei', type: 'uint64' },
+          { name: 'nonce', type: 'uint64' },
+        ],
+        'HyperliquidTransaction:CDeposit',
+        this.IS_MAINNET
+      );
+
+      const payload = { action, nonce: action.nonce, signature };
+      return this.sendAction(payload, options);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  //Move wei of undelegated native token from the staking balance back to the spot balance
+  async stakingWithdraw(
+    wei: number,
+    options: ActionRequestOptions = {}
+  ): Promise<any> {
+    await this.ensureNotAgent('stakingWithdraw');
+    try {
+      const action = {
+        type: ExchangeType.C_WITHDRAW,
+        hyperliquidChain: this.IS_MAINNET ? 'Mainnet' : 'Testnet',
+        signatureChainId: this.IS_MAINNET ? '0xa4b1' : '0x66eee',
+        wei,
+        nonce: this.nonceManager.next(),
+      };
+      const signature = await signUserSignedAction(
+        this.signer,
+        action,
+        [
+          { name: 'hyperliquidChain', type: 'string' },
+          { name: 'wei', type: 'uint64' },
+          { name: 'nonce', type: 'uint64' },
+        ],
+        'HyperliquidTransaction:CWithdraw',
+        this.IS_MAINNET
+      );
+
+      const payload = { action, nonce: action.nonce, signature };
+      return this.sendAction(payload, options);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  //Delegate wei of staked native token to a validator, or undelegate it when isUndelegate is true
+  async tokenDelegate(
+    validator: string,
+    wei: number,
+    isUndelegate: boolean = false,
+    options: ActionRequestOptions = {}
+  ): Promise<any> {
+    await this.ensureNotAgent('tokenDelegate');
+    try {
+      const action = {
+        type: ExchangeType.TOKEN_DELEGATE,
+        hyperliquidChain: this.IS_MAINNET ? 'Mainnet' : 'Testnet',
+        signatureChainId: this.IS_MAINNET ? '0xa4b1' : '0x66eee',
+        validator,
+        wei,
+        isUndelegate,
+        nonce: this.nonceManager.next(),
+      };
+      const signature = await signUserSignedAction(
+        this.signer,
+        action,
+        [
+          { name: 'hyperliquidChain', type: 'string' },
+          { name: 'validator', type: 'address' },
+          { name: 'wei', type: 'uint64' },
+          { name: 'isUndelegate', type: 'bool' },
+          { name: 'nonce', type: 'uint64' },
+        ],
+        'HyperliquidTransaction:TokenDelegate',
         this.IS_MAINNET
       );
 
-      const payload = { action, nonce, signature };
-      return this.httpApi.makeRequest(payload, 1);
+      const payload = { action, nonce: action.nonce, signature };
+      return this.sendAction(payload, options);
     } catch (error) {
       throw error;
     }
@@ -11,9 +11,22 @@ import type {
   FrontendOpenOrders,
   UserFills,
   UserRateLimit,
+  UserTwapSliceFills,
+  ExtraAgents,
+  SubAccounts,
+  VaultDetails,
+  UserVaultEquities,
+  Delegations,
+  DelegatorSummary,
+  DelegatorHistory,
+  DelegatorRewards,
+  ValidatorSummaries,
   OrderStatus,
   L2Book,
+  L2BookOptions,
   CandleSnapshot,
+  RequestOptions,
+  HttpTransport,
 } from '../types/index';
 
 import { ENDPOINTS } from '../types/constants';
@@ -24,14 +37,30 @@ export class InfoAPI {
   private httpApi: HttpApi;
   private generalAPI: GeneralInfoAPI;
   private symbolConversion: SymbolConversion;
+  private baseURL: string;
+  private rateLimiter: RateLimiter;
+  private requestOptions: RequestOptions;
+  private transport?: HttpTransport;
 
   constructor(
     baseURL: string,
     rateLimiter: RateLimiter,
-    symbolConversion: SymbolConversion
+    symbolConversion: SymbolConversion,
+    requestOptions: RequestOptions = {},
+    transport?: HttpTransport
   ) {
-    this.httpApi = new HttpApi(baseURL, ENDPOINTS.INFO, rateLimiter);
+    this.httpApi = new HttpApi(
+      baseURL,
+      ENDPOINTS.INFO,
+      rateLimiter,
+      requestOptions,
+      transport
+    );
     this.symbolConversion = symbolConversion;
+    this.baseURL = baseURL;
+    this.rateLimiter = rateLimiter;
+    this.requestOptions = requestOptions;
+    this.transport = transport;
 
     this.generalAPI = new GeneralInfoAPI(this.httpApi, this.symbolConversion);
     this.spot = new SpotInfoAPI(this.httpApi, this.symbolConversion);
@@ -41,6 +70,17 @@ export class InfoAPI {
     );
   }
 
+  // Returns an InfoAPI whose requests use these options on top of the client's, e.g. an AbortSignal or a shorter timeout
+  withRequestOptions(requestOptions: RequestOptions): InfoAPI {
+    return new InfoAPI(
+      this.baseURL,
+      this.rateLimiter,
+      this.symbolConversion,
+      { ...this.requestOptions, ...requestOptions },
+      this.transport
+    );
+  }
+
   async getAssetIndex(assetName: string): Promise<number | undefined> {
     return await this.symbolConversion.getAssetIndex(assetName);
   }
@@ -92,6 +132,13 @@ export class InfoAPI {
     );
   }
 
+  async getUserTwapSliceFills(
+    user: string,
+    rawResponse: boolean = false
+  ): Promise<UserTwapSliceFills> {
+    return this.generalAPI.getUserTwapSliceFills(user, rawResponse);
+  }
+
   async getUserRateLimit(
     user: string,
     rawResponse: boolean = false
@@ -99,6 +146,79 @@ export class InfoAPI {
     return this.generalAPI.getUserRateLimit(user, rawResponse);
   }
 
+  async getExtraAgents(
+    user: string,
+    rawResponse: boolean = false
+  ): Promise<ExtraAgents> {
+    return this.generalAPI.getExtraAgents(user, rawResponse);
+  }
+
+  async getSubAccounts(
+    user: string,
+    rawResponse: boolean = false
+  ): Promise<SubAccounts> {
+    return this.generalAPI.getSubAccounts(user, rawResponse);
+  }
+
+  // Pass user to include their followerState in the vault's details
+  async getVaultDetails(
+    vaultAddress: string,
+    user?: string,
+    rawResponse: boolean = false
+  ): Promise<VaultDetails> {
+    return this.generalAPI.getVaultDetails(vaultAddress, user, rawResponse);
+  }
+
+  async getUserVaultEquities(
+    user: string,
+    rawResponse: boolean = false
+  ): Promise<UserVaultEquities> {
+    return this.generalAPI.getUserVaultEquities(user, rawResponse);
+  }
+
+  async getDelegations(
+    user: string,
+    rawResponse: boolean = false
+  ): Promise<Delegations> {
+    return this.generalAPI.getDelegations(user, rawResponse);
+  }
+
+  async getDelegatorSummary(
+    user: string,
+    rawResponse: boolean = false
+  ): Promise<DelegatorSummary> {
+    return this.generalAPI.getDelegatorSummary(user, rawResponse);
+  }
+
+  async getDelegatorHistory(
+    user: string,
+    rawResponse: boolean = false
+  ): Promise<DelegatorHistory> {
+    return this.generalAPI.getDelegatorHistory(user, rawResponse);
+  }
+
+  async getDelegatorRewards(
+    user: string,
+    rawResponse: boolean = false
+  ): Promise<DelegatorRewards> {
+    return this.generalAPI.getDelegatorRewards(user, rawResponse);
+  }
+
+  async getValidatorSummaries(
+    rawResponse: boolean = false
+  ): Promise<ValidatorSummaries> {
+    return this.generalAPI.getValidatorSummaries(rawResponse);
+  }
+
+  // Maximum builder fee (in tenths of a basis point) the user has approved for builder
+  async getMaxBuilderFee(
+    user: string,
+    builder: string,
+    rawResponse: boolean = false
+  ): Promise<number> {
+    return this.generalAPI.getMaxBuilderFee(user, builder, rawResponse);
+  }
+
   async getOrderStatus(
     user: string,
     oid: number | string,
@@ -107,8 +227,12 @@ export class InfoAPI {
     return this.generalAPI.getOrderStatus(user, oid, rawResponse);
   }
 
-  async getL2Book(coin: string, rawResponse: boolean = false): Promise<L2Book> {
-    return this.generalAPI.getL2Book(coin, rawResponse);
+  async getL2Book(
+    coin: string,
+    rawResponse: boolean = false,
+    options: L2BookOptions = {}
+  ): Promise<L2Book> {
+    return this.generalAPI.getL2Book(coin, rawResponse, options);
   }
 
   async getCandleSnapshot(
@@ -1,15 +1,26 @@
-import { HttpApi } from '../../utils/helpers';
+import { HttpApi, l2BookAggregation } from '../../utils/helpers';
 import { SymbolConversion } from '../../utils/symbolConversion';
 import { InfoType } from '../../types/constants';
 import type {
   AllMids,
   CandleSnapshot,
+  Delegations,
+  DelegatorHistory,
+  DelegatorRewards,
+  DelegatorSummary,
+  ExtraAgents,
   FrontendOpenOrders,
   L2Book,
+  L2BookOptions,
   OrderStatus,
+  SubAccounts,
   UserFills,
   UserOpenOrders,
   UserRateLimit,
+  UserTwapSliceFills,
+  UserVaultEquities,
+  ValidatorSummaries,
+  VaultDetails,
 } from '../../types';
 
 export class GeneralInfoAPI {
@@ -32,7 +43,7 @@ export class GeneralInfoAPI {
       const convertedResponse: any = {};
       for (const [key, value] of Object.entries(response)) {
         const convertedKey = await this.symbolConversion.convertSymbol(key);
-        const convertedValue = parseFloat(value as string);
+        const convertedValue = this.symbolConversion.convertToNumber(value);
         convertedResponse[convertedKey] = convertedValue;
       }
       return convertedResponse;
@@ -56,10 +67,10 @@ export class GeneralInfoAPI {
     user: string,
     rawResponse: boolean = false
   ): Promise<FrontendOpenOrders> {
-    const response = await this.httpApi.makeRequest(
-      { type: InfoType.FRONTEND_OPEN_ORDERS, user: user },
-      20
-    );
+    const response = await this.httpApi.makeRequest({
+      type: InfoType.FRONTEND_OPEN_ORDERS,
+      user: user,
+    });
     return rawResponse
       ? response
       : await this.symbolConversion.convertResponse(response);
@@ -69,10 +80,10 @@ export class GeneralInfoAPI {
     user: string,
     rawResponse: boolean = false
   ): Promise<UserFills[]> {
-    const response = await this.httpApi.makeRequest(
-      { type: InfoType.USER_FILLS, user: user },
-      20
-    );
+    const response = await this.httpApi.makeRequest({
+      type: InfoType.USER_FILLS,
+      user: user,
+    });
     return rawResponse
       ? response
       : await this.symbolConversion.convertResponse(response);
@@ -99,7 +110,20 @@ export class GeneralInfoAPI {
       params.endTime = Math.round(endTime);
     }
 
-    const response = await this.httpApi.makeRequest(params, 20);
+    const response = await this.httpApi.makeRequest(params);
+    return rawResponse
+      ? response
+      : await this.symbolConversion.convertResponse(response);
+  }
+
+  async getUserTwapSliceFills(
+    user: string,
+    rawResponse: boolean = false
+  ): Promise<UserTwapSliceFills> {
+    const response = await this.httpApi.makeRequest({
+      type: InfoType.USER_TWAP_SLICE_FILLS,
+      user: user,
+    });
     return rawResponse
       ? response
       : await this.symbolConversion.convertResponse(response);
@@ -109,10 +133,146 @@ export class GeneralInfoAPI {
     user: string,
     rawResponse: boolean = false
   ): Promise<UserRateLimit> {
-    const response = await this.httpApi.makeRequest(
-      { type: InfoType.USER_RATE_LIMIT, user: user },
-      20
-    );
+    const response = await this.httpApi.makeRequest({
+      type: InfoType.USER_RATE_LIMIT,
+      user: user,
+    });
+    return rawResponse
+      ? response
+      : await this.symbolConversion.convertResponse(response);
+  }
+
+  async getExtraAgents(
+    user: string,
+    rawResponse: boolean = false
+  ): Promise<ExtraAgents> {
+    const response = await this.httpApi.makeRequest({
+      type: InfoType.EXTRA_AGENTS,
+      user: user,
+    });
+    return rawResponse
+      ? response
+      : await this.symbolConversion.convertResponse(response);
+  }
+
+  async getSubAccounts(
+    user: string,
+    rawResponse: boolean = false
+  ): Promise<SubAccounts> {
+    const response = await this.httpApi.makeRequest({
+      type: InfoType.SUB_ACCOUNTS,
+      user: user,
+    });
+    // Users without sub-accounts get null rather than an empty list
+    if (response === null) {
+      return [];
+    }
+    return rawResponse
+      ? response
+      : await this.symbolConversion.convertResponse(response);
+  }
+
+  async getVaultDetails(
+    vaultAddress: string,
+    user?: string,
+    rawResponse: boolean = false
+  ): Promise<VaultDetails> {
+    const response = await this.httpApi.makeRequest({
+      type: InfoType.VAULT_DETAILS,
+      vaultAddress: vaultAddress,
+      ...(user ? { user: user } : {}),
+    });
+    return rawResponse
+      ? response
+      : await this.symbolConversion.convertResponse(response);
+  }
+
+  async getUserVaultEquities(
+    user: string,
+    rawResponse: boolean = false
+  ): Promise<UserVaultEquities> {
+    const response = await this.httpApi.makeRequest({
+      type: InfoType.USER_VAULT_EQUITIES,
+      user: user,
+    });
+    return rawResponse
+      ? response
+      : await this.symbolConversion.convertResponse(response);
+  }
+
+  async getDelegations(
+    user: string,
+    rawResponse: boolean = false
+  ): Promise<Delegations> {
+    const response = await this.httpApi.makeRequest({
+      type: InfoType.DELEGATIONS,
+      user: user,
+    });
+    return rawResponse
+      ? response
+      : await this.symbolConversion.convertResponse(response);
+  }
+
+  async getDelegatorSummary(
+    user: string,
+    rawResponse: boolean = false
+  ): Promise<DelegatorSummary> {
+    const response = await this.httpApi.makeRequest({
+      type: InfoType.DELEGATOR_SUMMARY,
+      user: user,
+    });
+    return rawResponse
+      ? response
+      : await this.symbolConversion.convertResponse(response);
+  }
+
+  async getDelegatorHistory(
+    user: string,
+    rawResponse: boolean = false
+  ): Promise<DelegatorHistory> {
+    const response = await this.httpApi.makeRequest({
+      type: InfoType.DELEGATOR_HISTORY,
+      user: user,
+    });
+    return rawResponse
+      ? response
+      : await this.symbolConversion.convertResponse(response);
+  }
+
+  async getDelegatorRewards(
+    user: string,
+    rawResponse: boolean = false
+  ): Promise<DelegatorRewards> {
+    const response = await this.httpApi.makeRequest({
+      type: InfoType.DELEGATOR_REWARDS,
+      user: user,
+    });
+    return rawResponse
+      ? response
+      : await this.symbolConversion.convertResponse(response);
+  }
+
+  async getValidatorSummaries(
+    rawResponse: boolean = false
+  ): Promise<ValidatorSummaries> {
+    const response = await this.httpApi.makeRequest({
+      type: InfoType.VALIDATOR_SUMMARIES,
+    });
+    return rawResponse
+      ? response
+      : await this.symbolConversion.convertResponse(response);
+  }
+
+  async getMaxBuilderFee(
+    user: string,
+    builder: string,
+    rawResponse: boolean = false
+  ): Promise<number> {
+    const response = await this.httpApi.makeRequest({
+      type: InfoType.MAX_BUILDER_FEE,
+      user: user,
+      builder: builder.toLowerCase(),
+    });
     return rawResponse
       ? response
       : await this.symbolConversion.convertResponse(response);
@@ -133,10 +293,16 @@ export class GeneralInfoAPI {
       : await this.symbolConversion.convertResponse(response);
   }
 
-  async getL2Book(coin: string, rawResponse: boolean = false): Promise<L2Book> {
+  async getL2Book(
+    coin: string,
+    rawResponse: boolean = false,
+    options: L2BookOptions = {}
+  ): Promise<L2Book> {
+    const aggregation = l2BookAggregation(options);
     const response = await this.httpApi.makeRequest({
       type: InfoType.L2_BOOK,
       coin: await this.symbolConversion.convertSymbol(coin, 'reverse'),
+      ...aggregation,
     });
     return rawResponse
       ? response
@@ -64,15 +64,12 @@ export class PerpetualsInfoAPI {
     endTime?: number,
     rawResponse: boolean = false
   ): Promise<UserFunding> {
-    const response = await this.httpApi.makeRequest(
-      {
-        type: InfoType.USER_FUNDING,
-        user: user,
-        startTime: startTime,
-        endTime: endTime,
-      },
-      20
-    );
+    const response = await this.httpApi.makeRequest({
+      type: InfoType.USER_FUNDING,
+      user: user,
+      startTime: startTime,
+      endTime: endTime,
+    });
     return rawResponse
       ? response
       : await this.symbolConversion.convertResponse(response);
@@ -84,15 +81,12 @@ export class PerpetualsInfoAPI {
     endTime?: number,
     rawResponse: boolean = false
   ): Promise<UserNonFundingLedgerUpdates> {
-    const response = await this.httpApi.makeRequest(
-      {
-        type: InfoType.USER_NON_FUNDING_LEDGER_UPDATES,
-        user: user,
-        startTime: startTime,
-        endTime: endTime,
-      },
-      20
-    );
+    const response = await this.httpApi.makeRequest({
+      type: InfoType.USER_NON_FUNDING_LEDGER_UPDATES,
+      user: user,
+      startTime: startTime,
+      endTime: endTime,
+    });
     return rawResponse
       ? response
       : await this.symbolConversion.convertResponse(response);
@@ -104,15 +98,12 @@ export class PerpetualsInfoAPI {
     endTime?: number,
     rawResponse: boolean = false
   ): Promise<FundingHistory> {
-    const response = await this.httpApi.makeRequest(
-      {
-        type: InfoType.FUNDING_HISTORY,
-        coin: await this.symbolConversion.convertSymbol(coin, 'reverse'),
-        startTime: startTime,
-        endTime: endTime,
-      },
-      20
-    );
+    const response = await this.httpApi.makeRequest({
+      type: InfoType.FUNDING_HISTORY,
+      coin: await this.symbolConversion.convertSymbol(coin, 'reverse'),
+      startTime: startTime,
+      endTime: endTime,
+    });
     return rawResponse
       ? response
       : await this.symbolConversion.convertResponse(response);
@@ -32,6 +32,17 @@ export enum InfoType {
   SPOT_META = 'spotMeta',
   SPOT_CLEARINGHOUSE_STATE = 'spotClearinghouseState',
   SPOT_META_AND_ASSET_CTXS = 'spotMetaAndAssetCtxs',
+  EXTRA_AGENTS = 'extraAgents',
+  MAX_BUILDER_FEE = 'maxBuilderFee',
+  USER_TWAP_SLICE_FILLS = 'userTwapSliceFills',
+  SUB_ACCOUNTS = 'subAccounts',
+  VAULT_DETAILS = 'vaultDetails',
+  USER_VAULT_EQUITIES = 'userVaultEquities',
+  DELEGATIONS = 'delegations',
+  DELEGATOR_SUMMARY = 'delegatorSummary',
+  DELEGATOR_HISTORY = 'delegatorHistory',
+  DELEGATOR_REWARDS = 'delegatorRewards',
+  VALIDATOR_SUMMARIES = 'validatorSummaries',
 }
 
 export enum ExchangeType {
@@ -48,8 +59,21 @@ export enum ExchangeType {
   WITHDRAW = 'withdraw3',
   SPOT_USER = 'spotUser',
   VAULT_TRANSFER = 'vaultTransfer',
+  CREATE_VAULT = 'createVault',
+  VAULT_MODIFY = 'vaultModify',
+  VAULT_DISTRIBUTE = 'vaultDistribute',
   SET_REFERRER = 'setReferrer',
   USD_CLASS_TRANSFER = 'usdClassTransfer',
+  APPROVE_AGENT = 'approveAgent',
+  APPROVE_BUILDER_FEE = 'approveBuilderFee',
+  TWAP_ORDER = 'twapOrder',
+  TWAP_CANCEL = 'twapCancel',
+  CREATE_SUB_ACCOUNT = 'createSubAccount',
+  SUB_ACCOUNT_TRANSFER = 'subAccountTransfer',
+  SUB_ACCOUNT_SPOT_TRANSFER = 'subAccountSpotTransfer',
+  C_DEPOSIT = 'cDeposit',
+  C_WITHDRAW = 'cWithdraw',
+  TOKEN_DELEGATE = 'tokenDelegate',
 }
 
 export const WEBSOCKET = {
@@ -1,3 +1,9 @@
+import type { NonceManager } from '../utils/nonceManager';
+import type { RateLimiter } from '../utils/rateLimiter';
+import type { OrderBook } from '../websocket/orderBook';
+
+export type DecimalValue = number | string;
+export type NumericMode = 'number' | 'string';
 export type Tif = 'Alo' | 'Ioc' | 'Gtc' | 'FrontendMarket';
 export type Tpsl = 'tp' | 'sl';
 export type LimitOrderType = {
@@ -192,6 +198,140 @@ export interface SpotClearinghouseState {
     token: string;
   }[];
 }
+export interface SubAccount {
+  name: string;
+  subAccountUser: string;
+  master: string;
+  clearinghouseState: ClearinghouseState;
+  spotState: SpotClearinghouseState;
+}
+export type SubAccounts = SubAccount[];
+export interface CreateSubAccountResponse {
+  status: string;
+  response: {
+    type: 'createSubAccount';
+    data: string;
+  };
+}
+export interface LeadingVault {
+  address: string;
+  name: string;
+}
+export interface VaultFollower {
+  user: string;
+  vaultEquity: string;
+  pnl: string;
+  allTimePnl: string;
+  daysFollowing: number;
+  vaultEntryTime: number;
+  lockupUntil: number;
+}
+export interface VaultPortfolioHistory {
+  accountValueHistory: [number, string][];
+  pnlHistory: [number, string][];
+  vlm: string;
+}
+export type VaultPortfolio = [
+  'day' | 'week' | 'month' | 'allTime',
+  VaultPortfolioHistory,
+][];
+export type VaultRelationship =
+  | { type: 'normal' }
+  | { type: 'parent'; data: { childAddresses: string[] } }
+  | { type: 'child' };
+export interface VaultDetails {
+  name: string;
+  vaultAddress: string;
+  leader: string;
+  description: string;
+  portfolio: VaultPortfolio;
+  apr: number;
+  followerState: VaultFollower | null;
+  leaderFraction: number;
+  leaderCommission: number;
+  followers: VaultFollower[];
+  maxDistributable: number;
+  maxWithdrawable: number;
+  isClosed: boolean;
+  relationship: VaultRelationship;
+  allowDeposits: boolean;
+  alwaysCloseOnWithdraw: boolean;
+}
+export interface UserVaultEquity {
+  vaultAddress: string;
+  equity: string;
+  lockedUntilTimestamp: number;
+}
+export type UserVaultEquities = UserVaultEquity[];
+export interface CreateVaultResponse {
+  status: string;
+  response: {
+    type: 'createVault';
+    data: string;
+  };
+}
+export interface Delegation {
+  validator: string;
+  amount: string;
+  lockedUntilTimestamp: number;
+}
+export type Delegations = Delegation[];
+export interface DelegatorSummary {
+  delegated: string;
+  undelegated: string;
+  totalPendingWithdrawal: string;
+  nPendingWithdrawals: number;
+}
+export type DelegatorHistoryDelta =
+  | {
+      delegate: {
+        validator: string;
+        amount: string;
+        isUndelegate: boolean;
+      };
+    }
+  | {
+      cDeposit: {
+        amount: string;
+      };
+    }
+  | {
+      withdrawal: {
+        amount: string;
+        phase: 'initiated' | 'finalized';
+      };
+    };
+export interface DelegatorHistoryEntry {
+  time: number;
+  hash: string;
+  delta: DelegatorHistoryDelta;
+}
+export type DelegatorHistory = DelegatorHistoryEntry[];
+export interface DelegatorReward {
+  time: number;
+  source: 'delegation' | 'commission';
+  totalAmount: string;
+}
+export type DelegatorRewards = DelegatorReward[];
+export interface ValidatorStats {
+  uptimeFraction: string;
+  predictedApr: string;
+  nSamples: number;
+}
+export interface ValidatorSummary {
+  validator: string;
+  signer: string;
+  name: string;
+  description: string;
+  nRecentBlocks: number;
+  stake: number;
+  isJailed: boolean;
+  unjailableAfter: number | null;
+  isActive: boolean;
+  commission: string;
+  stats: ['day' | 'week' | 'month', ValidatorStats][];
+}
+export type ValidatorSummaries = ValidatorSummary[];
 export interface FrontendOpenOrders {
   coin: string;
   isPositionTpsl: boolean;
@@ -221,12 +361,26 @@ export interface UserFills {
   time: number;
 }
 export interface UserRateLimit {
-  [key: string]: any;
+  cumVlm: string;
+  nRequestsUsed: number;
+  nRequestsCap: number;
+}
+export interface ExtraAgent {
+  name: string;
+  address: string;
+  validUntil: number;
 }
+export type ExtraAgents = ExtraAgent[];
 export interface OrderStatus {
   [key: string]: any;
 }
+export interface L2BookOptions {
+  nSigFigs?: 2 | 3 | 4 | 5 | null;
+  mantissa?: 1 | 2 | 5 | null;
+}
 export interface L2Book {
+  coin: string;
+  time: number;
   levels: [
     {
       px: string;
@@ -336,8 +490,8 @@ export interface Order extends BaseOrder {
   orders?: undefined;
   coin: string;
   is_buy: boolean;
-  sz: number;
-  limit_px: number;
+  sz: DecimalValue;
+  limit_px: DecimalValue;
   order_type: OrderType;
   reduce_only: boolean;
   cloid?: any;
@@ -346,7 +500,8 @@ export interface Order extends BaseOrder {
 export type OrderRequest = Order | MultiOrder;
 
 interface BaseOrder {
-  vaultAddress?: string;
+  vaultAddress?: string | null;
+  expiresAfter?: number | null;
   grouping?: Grouping;
   builder?: Builder;
 }
@@ -355,10 +510,95 @@ interface MultiOrder extends BaseOrder {
   orders: Order[];
 }
 
+export type ActionRequestOptions = Pick<RequestOptions, 'timeout' | 'signal'>;
+export interface ExpiryOptions extends ActionRequestOptions {
+  expiresAfter?: number | null;
+}
+export interface L1ActionOptions extends ExpiryOptions {
+  vaultAddress?: string | null;
+}
+
 export interface Builder {
   address: string;
   fee: number;
 }
+export interface BuilderWire {
+  b: string;
+  f: number;
+}
+export type RequestPriority = 'high' | 'normal' | 'low';
+export interface RateLimitBucket {
+  capacity: number;
+  refillPerMs: number;
+}
+export interface RateLimitTakeResult {
+  granted: boolean;
+  tokens: number;
+}
+export interface RateLimitStore {
+  take(
+    key: string,
+    cost: number,
+    bucket: RateLimitBucket,
+    force?: boolean
+  ): Promise<RateLimitTakeResult>;
+}
+export interface RateLimitKeyValue {
+  get(key: string): Promise<string | null>;
+  compareAndSet(
+    key: string,
+    expected: string | null,
+    value: string
+  ): Promise<boolean>;
+}
+export type RateLimitScriptEval = (
+  script: string,
+  key: string,
+  args: string[]
+) => Promise<unknown>;
+export interface RateLimiterOptions {
+  capacity?: number;
+  maxQueueSize?: number;
+  store?: RateLimitStore;
+  key?: string;
+}
+export interface RequestOptions {
+  priority?: RequestPriority;
+  timeout?: number;
+  retries?: number;
+  retryBaseDelayMs?: number;
+  retryMaxDelayMs?: number;
+  retryableStatuses?: number[];
+  signal?: AbortSignal;
+}
+export interface HttpTransportRequest {
+  url: string;
+  body: unknown;
+  headers: Record<string, string>;
+  timeout?: number;
+  signal?: AbortSignal;
+}
+export interface HttpTransportResponse {
+  status: number;
+  data: any;
+}
+export interface HttpTransport {
+  post(request: HttpTransportRequest): Promise<HttpTransportResponse>;
+}
+export type ActionTransport = 'auto' | 'http' | 'ws';
+export interface HyperliquidOptions {
+  builder?: Builder;
+  vaultAddress?: string;
+  nonceManager?: NonceManager;
+  expiresAfterMs?: number;
+  numericMode?: NumericMode;
+  requestOptions?: RequestOptions;
+  transport?: HttpTransport;
+  rateLimiter?: RateLimiter;
+  rateLimiterOptions?: RateLimiterOptions;
+  webSocket?: WebSocketClientOptions;
+  actionTransport?: ActionTransport;
+}
 export interface OrderWire {
   a: number;
   b: boolean;
@@ -368,6 +608,66 @@ export interface OrderWire {
   t: OrderType;
   c?: string;
 }
+export interface TwapOrder {
+  coin: string;
+  is_buy: boolean;
+  sz: DecimalValue;
+  reduce_only: boolean;
+  minutes: number;
+  randomize: boolean;
+}
+export interface TwapWire {
+  a: number;
+  b: boolean;
+  s: string;
+  r: boolean;
+  m: number;
+  t: boolean;
+}
+export interface TwapOrderResponse {
+  status: string;
+  response: {
+    type: 'twapOrder';
+    data: {
+      status:
+        | {
+            running: {
+              twapId: number;
+            };
+          }
+        | {
+            error: string;
+          };
+    };
+  };
+}
+export interface TwapCancelResponse {
+  status: string;
+  response: {
+    type: 'twapCancel';
+    data: {
+      status: string | { error: string };
+    };
+  };
+}
+export interface TwapState {
+  coin: string;
+  executedNtl: string;
+  executedSz: string;
+  minutes: number;
+  randomize: boolean;
+  reduceOnly: boolean;
+  side: string;
+  sz: string;
+  timestamp: number;
+  user: string;
+}
+export type TwapStates = [number, TwapState][];
+export interface TwapSliceFill {
+  fill: UserFills;
+  twapId: number;
+}
+export type UserTwapSliceFills = TwapSliceFill[];
 export interface TriggerOrderTypeWire {
   triggerPx: number | string;
   isMarket: boolean;
@@ -401,6 +701,21 @@ export interface ScheduleCancelAction {
   type: 'scheduleCancel';
   time?: number | null;
 }
+export interface TypedDataPayload {
+  domain: {
+    name: string;
+    version: string;
+    chainId: number;
+    verifyingContract: string;
+  };
+  types: Record<string, Array<{ name: string; type: string }>>;
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+export interface HyperliquidSigner {
+  getAddress(): Promise<string>;
+  signTypedData(payload: TypedDataPayload): Promise<string>;
+}
 export interface Signature {
   r: string;
   s: string;
@@ -412,7 +727,7 @@ export interface Notification {
 }
 export interface WebData2 {
   clearinghouseState: ClearinghouseState;
-  leadingVaults: any[];
+  leadingVaults: LeadingVault[];
   totalVaultEquity: string;
   openOrders: FrontendOpenOrders[];
   agentAddress: string;
@@ -423,7 +738,7 @@ export interface WebData2 {
   serverTime: number;
   isVault: boolean;
   user: string;
-  twapStates: any[];
+  twapStates: TwapStates;
   spotState: SpotClearinghouseState;
   spotAssetCtxs: SpotAssetCtx[];
 }
@@ -458,6 +773,7 @@ export interface WsUserFill {
 }
 export type WsUserFills = {
   isSnapshot: boolean;
+  isResync?: boolean;
   fills: WsUserFill[];
   user: string;
 };
@@ -470,11 +786,13 @@ export interface WsUserFunding {
 }
 export type WsUserFundings = {
   isSnapshot: boolean;
+  isResync?: boolean;
   fundings: WsUserFunding[];
   user: string;
 };
 export interface WsUserHistoricalOrders {
   isSnapshot: boolean;
+  isResync?: boolean;
   orderHistory: OrderHistory[];
 }
 export interface OrderHistory {
@@ -526,10 +844,81 @@ export interface WsUserNonFundingLedgerUpdate {
 }
 export type WsUserNonFundingLedgerUpdates = {
   isSnapshot: boolean;
+  isResync?: boolean;
   updates: WsUserNonFundingLedgerUpdate[];
   user: string;
 };
 
+export interface WsSubscription {
+  type: string;
+  [key: string]: any;
+}
+export interface ResyncEvent {
+  disconnectedAt: number;
+  resyncedAt: number;
+  gapMs: number;
+  subscriptions: WsSubscription[];
+}
+export interface SubscriptionHandle {
+  subscription: WsSubscription;
+  unsubscribe(): Promise<void>;
+  pause(): void;
+  resume(): void;
+}
+export interface StreamOptions {
+  bufferSize?: number;
+  overflow?: 'dropOldest' | 'error' | 'pause';
+  signal?: AbortSignal;
+}
+export interface Observer<T> {
+  next(value: T): void;
+  error(error: unknown): void;
+  complete(): void;
+}
+export interface Unsubscribable {
+  unsubscribe(): void;
+}
+export interface Observable<T> {
+  subscribe(
+    observerOrNext: Partial<Observer<T>> | ((value: T) => void)
+  ): Unsubscribable;
+}
+export interface OrderBookLevel {
+  px: number;
+  sz: number;
+  n: number;
+}
+export interface OrderBookEvents {
+  change: [book: OrderBook];
+}
+export type ConnectionState =
+  | 'connecting'
+  | 'open'
+  | 'reconnecting'
+  | 'closed'
+  | 'failed';
+export interface ReconnectPolicy {
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  jitter?: number;
+}
+export interface WebSocketClientOptions {
+  reconnect?: ReconnectPolicy;
+  pingIntervalMs?: number;
+  pongTimeoutMs?: number;
+}
+export interface WebSocketClientEvents {
+  message: [message: any];
+  open: [];
+  close: [];
+  stateChange: [state: ConnectionState, previous: ConnectionState];
+  reconnecting: [attempt: number, delayMs: number];
+  connectionError: [error: unknown];
+  subscriptionError: [error: unknown, subscription?: WsSubscription];
+  stalled: [];
+  maxReconnectAttemptsReached: [];
+}
 export interface WsActiveAssetData {
   availableToTrade: number[];
   coin: string;
@@ -547,3 +936,24 @@ export interface WsActiveAssetCtx {
   coin: string;
   ctx: AssetCtx;
 }
+export interface WsActiveSpotAssetCtx {
+  coin: string;
+  ctx: SpotAssetCtx;
+}
+export type WsActiveAssetCtxFor<C extends string> = C extends `${string}-SPOT`
+  ? WsActiveSpotAssetCtx
+  : C extends `${string}-PERP`
+    ? WsActiveAssetCtx
+    : WsActiveAssetCtx | WsActiveSpotAssetCtx;
+export interface WsBbo {
+  coin: string;
+  time: number;
+  bbo: [WsLevel | null, WsLevel | null];
+}
+
+export interface WsUserTwapSliceFills {
+  isSnapshot?: boolean;
+  isResync?: boolean;
+  user: string;
+  twapSliceFills: TwapSliceFill[];
+}
@@ -0,0 +1,111 @@
+import type { RoundingMode } from './precision';
+
+// Exact arithmetic on decimal strings, used when numericMode is 'string' so prices and sizes
+// never pass through a float. Values are held as a scaled BigInt: digits / 10^scale.
+interface ParsedDecimal {
+  negative: boolean;
+  digits: bigint;
+  scale: number;
+}
+
+const DECIMAL_PATTERN = /^-?(\d+\.?\d*|\.\d+)$/;
+
+export function isDecimalString(value: unknown): value is string {
+  return typeof value === 'string' && DECIMAL_PATTERN.test(value);
+}
+
+function parseDecimal(value: string): ParsedDecimal {
+  if (!isDecimalString(value)) {
+    throw new Error(`Invalid decimal: ${value}`);
+  }
+  const negative = value.startsWith('-');
+  const [integerPart, fractionPart = ''] = (
+    negative ? value.slice(1) : value
+  ).split('.');
+  const fraction = fractionPart.replace(/0+$/, '');
+  return {
+    negative,
+    digits: BigInt((integerPart || '0') + fraction),
+    scale: fraction.length,
+  };
+}
+
+function formatDecimal({ negative, digits, scale }: ParsedDecimal): string {
+  if (digits === 0n) {
+    return '0';
+  }
+  const padded = digits.toString().padStart(scale + 1, '0');
+  const integerPart = padded.slice(0, padded.length - scale);
+  const fractionPart = padded.slice(padded.length - scale).replace(/0+$/, '');
+  const sign = negative ? '-' : '';
+  return fractionPart
+    ? `${sign}${integerPart}.${fractionPart}`
+    : `${sign}${integerPart}`;
+}
+
+// Canonical form of a decimal string, identical to what floatToWire produces for the same number
+export function normalizeDecimal(value: string): string {
+  return formatDecimal(parseDecimal(value));
+}
+
+export function decimalPlaces(value: string): number {
+  return parseDecimal(value).scale;
+}
+
+// floor(log10(|value|)), the position of the first significant digit
+export function decimalMagnitude(value: string): number {
+  const { digits, scale } = parseDecimal(value);
+  if (digits === 0n) {
+    return 0;
+  }
+  return digits.toString().length - 1 - scale;
+}
+
+// value * 10^power as an integer, throwing instead of dropping digits
+export function decimalToInt(value: string, power: number): number {
+  const { negative, digits, scale } = parseDecimal(value);
+  if (scale > power) {
+    throw new Error(`decimalToInt causes rounding: ${value}`);
+  }
+  const scaled = digits * 10n ** BigInt(power - scale);
+  // Past 2^53 a Number can't hold every integer, converting would silently change the amount
+  if (scaled > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new RangeError(
+      `decimalToInt exceeds the safe integer range: ${value}`
+    );
+  }
+  return Number(negative ? -scaled : scaled);
+}
+
+export function roundDecimal(
+  value: string,
+  decimals: number,
+  mode: RoundingMode = 'nearest'
+): string {
+  const parsed = parseDecimal(value);
+  if (parsed.scale <= decimals) {
+    return formatDecimal(parsed);
+  }
+  const divisor = 10n ** BigInt(parsed.scale - decimals);
+  let quotient = parsed.digits / divisor;
+  const remainder = parsed.digits % divisor;
+  // Rounds like Math.floor, Math.ceil and Math.round, towards -Infinity or +Infinity on ties
+  if (remainder > 0n) {
+    const roundAway =
+      mode === 'down'
+        ? parsed.negative
+        : mode === 'up'
+          ? !parsed.negative
+          : parsed.negative
+            ? remainder * 2n > divisor
+            : remainder * 2n >= divisor;
+    if (roundAway) {
+      quotient += 1n;
+    }
+  }
+  return formatDecimal({
+    negative: parsed.negative,
+    digits: quotient,
+    scale: decimals,
+  });
+}
@@ -1,7 +1,8 @@
 export class HyperliquidAPIError extends Error {
   constructor(
     public code: string,
-    message: string
+    message: string,
+    public status?: number
   ) {
     super(message);
     this.name = 'HyperliquidAPIError';
@@ -15,24 +16,64 @@ export class AuthenticationError extends Error {
   }
 }
 
-export function handleApiError(error: any): never {
-  if (error.response) {
-    //The request was made and the server responded with a status code
-    //that falls out of the range of 2xx
-    throw new HyperliquidAPIError(
-      error.response.data.code || error.response.status || 'UNKNOWN_ERROR',
-      error.response.data.message ||
-        error.response.data ||
-        'An unknown error occurred'
+export class BuilderFeeNotApprovedError extends Error {
+  constructor(
+    public builder: string,
+    public fee: number,
+    public maxFee: number
+  ) {
+    super(
+      `Builder ${builder} charges a fee of ${fee} but the user has only approved up to ${maxFee}. Call approveBuilderFee first.`
     );
+    this.name = 'BuilderFeeNotApprovedError';
+  }
+}
+
+export class RateLimitError extends Error {
+  constructor(
+    public code: 'QUEUE_FULL' | 'DISPOSED' | 'STORE_CONFLICT',
+    message: string
+  ) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+//The server responded with a status code that falls out of the range of 2xx
+export function responseToApiError(
+  status: number,
+  data: any
+): HyperliquidAPIError {
+  return new HyperliquidAPIError(
+    data?.code || status || 'UNKNOWN_ERROR',
+    data?.message || data || 'An unknown error occurred',
+    status
+  );
+}
+
+export function toApiError(error: any): HyperliquidAPIError {
+  if (error instanceof HyperliquidAPIError) {
+    return error;
+  } else if (error.code === 'ERR_CANCELED') {
+    //The caller aborted the request through its AbortSignal
+    return new HyperliquidAPIError('ABORTED', 'Request was aborted');
+  } else if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    //No response arrived within the request timeout
+    return new HyperliquidAPIError('TIMEOUT', error.message);
+  } else if (error.response) {
+    return responseToApiError(error.response.status, error.response.data);
   } else if (error.request) {
     //The request was made but no response was received
-    throw new HyperliquidAPIError(
+    return new HyperliquidAPIError(
       'NETWORK_ERROR',
       'No response received from the server'
     );
   } else {
     //Something happened in setting up the request that triggered an Error
-    throw new HyperliquidAPIError('REQUEST_SETUP_ERROR', error.message);
+    return new HyperliquidAPIError('REQUEST_SETUP_ERROR', error.message);
   }
 }
+
+export function handleApiError(error: any): never {
+  throw toApiError(error);
+}
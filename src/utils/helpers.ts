@@ -1,39 +1,188 @@
-import axios, { type AxiosInstance } from 'axios';
-import { handleApiError } from './errors';
-import { RateLimiter } from './rateLimiter';
+import {
+  HyperliquidAPIError,
+  RateLimitError,
+  responseToApiError,
+  toApiError,
+} from './errors';
+import {
+  RateLimiter,
+  getExchangePriority,
+  getExchangeWeight,
+  getInfoPriority,
+  getInfoWeight,
+  getResponseWeight,
+} from './rateLimiter';
+import { ENDPOINTS } from '../types/constants';
+import { FetchTransport } from './transport';
+import type { HttpTransport, L2BookOptions, RequestOptions } from '../types';
+
+export const DEFAULT_REQUEST_OPTIONS = {
+  timeout: 10000,
+  retries: 2,
+  retryBaseDelayMs: 250,
+  retryMaxDelayMs: 5000,
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+};
+
+// The aggregation fields of an l2Book request or subscription. The server only takes a mantissa
+// on top of nSigFigs 5, anything else is refused here rather than silently ignored.
+export function l2BookAggregation({
+  nSigFigs = null,
+  mantissa = null,
+}: L2BookOptions): Pick<L2BookOptions, 'nSigFigs' | 'mantissa'> {
+  if (nSigFigs !== null && ![2, 3, 4, 5].includes(nSigFigs)) {
+    throw new Error(`nSigFigs must be 2, 3, 4 or 5, got ${nSigFigs}`);
+  }
+  if (mantissa !== null) {
+    if (nSigFigs !== 5) {
+      throw new Error('mantissa is only accepted with nSigFigs: 5');
+    }
+    if (![1, 2, 5].includes(mantissa)) {
+      throw new Error(`mantissa must be 1, 2 or 5, got ${mantissa}`);
+    }
+  }
+  return {
+    ...(nSigFigs !== null ? { nSigFigs } : {}),
+    ...(mantissa !== null ? { mantissa } : {}),
+  };
+}
+
+// Full jitter: a random delay up to the exponential backoff for this attempt
+function getRetryDelay(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number
+): number {
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new HyperliquidAPIError('ABORTED', 'Request was aborted'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new HyperliquidAPIError('ABORTED', 'Request was aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
 
 export class HttpApi {
-  private client: AxiosInstance;
+  private transport: HttpTransport;
+  private baseUrl: string;
   private endpoint: string;
   private rateLimiter: RateLimiter;
+  private requestOptions: RequestOptions;
 
   constructor(
     baseUrl: string,
     endpoint: string = '/',
-    rateLimiter: RateLimiter
+    rateLimiter: RateLimiter,
+    requestOptions: RequestOptions = {},
+    transport: HttpTransport = new FetchTransport()
   ) {
+    this.baseUrl = baseUrl;
     this.endpoint = endpoint;
-    this.client = axios.create({
-      baseURL: baseUrl,
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
+    this.transport = transport;
     this.rateLimiter = rateLimiter;
+    this.requestOptions = requestOptions;
   }
 
+  // Network failures, timeouts and retryableStatuses are retried, aborts and other API errors are not
+  private isRetryable(
+    error: HyperliquidAPIError,
+    retryableStatuses: number[]
+  ): boolean {
+    if (error.code === 'NETWORK_ERROR' || error.code === 'TIMEOUT') {
+      return true;
+    }
+    return (
+      error.status !== undefined && retryableStatuses.includes(error.status)
+    );
+  }
+
+  // Without an explicit weight it is derived from the payload, per info type or exchange batch size
   async makeRequest(
     payload: any,
-    weight: number = 2,
-    endpoint: string = this.endpoint
+    weight?: number,
+    endpoint: string = this.endpoint,
+    requestOptions: RequestOptions = {}
   ): Promise<any> {
-    try {
-      await this.rateLimiter.waitForToken(weight);
+    const {
+      timeout,
+      retries,
+      retryBaseDelayMs,
+      retryMaxDelayMs,
+      retryableStatuses,
+      signal,
+      priority,
+    } = {
+      ...DEFAULT_REQUEST_OPTIONS,
+      ...this.requestOptions,
+      ...requestOptions,
+    };
+    const isExchange = endpoint === ENDPOINTS.EXCHANGE;
+    const requestWeight =
+      weight ??
+      (isExchange
+        ? getExchangeWeight(payload.action)
+        : getInfoWeight(payload.type));
+    const requestPriority = isExchange
+      ? getExchangePriority(payload.action, priority)
+      : (priority ?? getInfoPriority(payload.type));
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        if (signal?.aborted) {
+          throw new HyperliquidAPIError('ABORTED', 'Request was aborted');
+        }
+        await this.rateLimiter.waitForToken(
+          requestWeight,
+          requestPriority,
+          signal
+        );
 
-      const response = await this.client.post(endpoint, payload);
-      return response.data;
-    } catch (error) {
-      handleApiError(error);
+        const response = await this.transport.post({
+          url: this.baseUrl + endpoint,
+          body: payload,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          timeout,
+          signal,
+        });
+        if (response.status < 200 || response.status >= 300) {
+          throw responseToApiError(response.status, response.data);
+        }
+        if (!isExchange) {
+          await this.rateLimiter.charge(
+            getResponseWeight(payload.type, response.data)
+          );
+        }
+        return response.data;
+      } catch (error) {
+        if (error instanceof RateLimitError) {
+          throw error;
+        }
+        const apiError = toApiError(error);
+        if (
+          attempt >= retries ||
+          !this.isRetryable(apiError, retryableStatuses)
+        ) {
+          throw apiError;
+        }
+        await sleep(
+          getRetryDelay(attempt, retryBaseDelayMs, retryMaxDelayMs),
+          signal
+        );
+      }
     }
   }
 }
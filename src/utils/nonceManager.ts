@@ -0,0 +1,41 @@
+// Hands out the nonces of signed actions. Hyperliquid rejects a nonce a signer has already used,
+// so two actions created in the same millisecond must not both take Date.now().
+export class NonceManager {
+  private clock: () => number;
+  private clockOffset: number = 0;
+  private lastNonce: number = 0;
+
+  private static shared: NonceManager | null = null;
+
+  constructor(clock: () => number = Date.now) {
+    this.clock = clock;
+  }
+
+  // What clients use unless given their own manager. Being one per process, clients that
+  // share a signer can't hand out the same nonce.
+  static getShared(): NonceManager {
+    NonceManager.shared ??= new NonceManager();
+    return NonceManager.shared;
+  }
+
+  // Corrects local clock skew with a server timestamp, such as WebData2.serverTime
+  syncServerTime(serverTime: number): void {
+    this.clockOffset = serverTime - this.clock();
+  }
+
+  getClockOffset(): number {
+    return this.clockOffset;
+  }
+
+  // Current time in ms, adjusted to the server clock
+  now(): number {
+    return Math.floor(this.clock() + this.clockOffset);
+  }
+
+  // Strictly greater than every nonce handed out before, and close to the server's time
+  next(): number {
+    const nonce = Math.max(this.now(), this.lastNonce + 1);
+    this.lastNonce = nonce;
+    return nonce;
+  }
+}
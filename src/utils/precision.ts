@@ -0,0 +1,171 @@
+import type { DecimalValue, Meta, SpotMeta, SpotToken } from '../types';
+import { decimalMagnitude, normalizeDecimal, roundDecimal } from './decimal';
+
+// Hyperliquid accepts prices with up to 5 significant figures and at most
+// MAX_DECIMALS - szDecimals decimal places. Integer prices are always valid.
+export const MAX_PRICE_SIGNIFICANT_FIGURES = 5;
+export const MAX_PERP_DECIMALS = 6;
+export const MAX_SPOT_DECIMALS = 8;
+
+export type RoundingMode = 'up' | 'down' | 'nearest';
+
+// szDecimals of every perp, keyed by exchange coin name (e.g. BTC)
+export function szDecimalsFromMeta(meta: Meta): Map<string, number> {
+  return new Map(meta.universe.map((asset) => [asset.name, asset.szDecimals]));
+}
+
+// szDecimals of every spot market, keyed by exchange market name (e.g. @107 or PURR/USDC).
+// Spot sizes are denominated in the base token, so its szDecimals apply.
+export function szDecimalsFromSpotMeta(
+  spotMeta: SpotMeta
+): Map<string, number> {
+  const tokens = new Map<number, SpotToken>(
+    spotMeta.tokens.map((token) => [token.index, token])
+  );
+  const decimals = new Map<string, number>();
+  for (const market of spotMeta.universe) {
+    const baseToken = tokens.get(market.tokens[0]);
+    if (baseToken) {
+      decimals.set(market.name, baseToken.szDecimals);
+    }
+  }
+  return decimals;
+}
+
+export function maxPriceDecimals(szDecimals: number, isSpot: boolean): number {
+  const maxDecimals = isSpot ? MAX_SPOT_DECIMALS : MAX_PERP_DECIMALS;
+  return Math.max(maxDecimals - szDecimals, 0);
+}
+
+// Decimal strings are rounded exactly and stay strings, numbers stay numbers
+export function roundToDecimals(
+  value: number,
+  decimals: number,
+  mode?: RoundingMode
+): number;
+export function roundToDecimals(
+  value: string,
+  decimals: number,
+  mode?: RoundingMode
+): string;
+export function roundToDecimals(
+  value: DecimalValue,
+  decimals: number,
+  mode?: RoundingMode
+): DecimalValue;
+export function roundToDecimals(
+  value: DecimalValue,
+  decimals: number,
+  mode: RoundingMode = 'nearest'
+): DecimalValue {
+  if (typeof value === 'string') {
+    return roundDecimal(value, decimals, mode);
+  }
+  const factor = Math.pow(10, decimals);
+  // Strip float noise first, e.g. 1.005 * 100 is 100.49999999999999 and would otherwise floor to 100
+  const scaled = Number((value * factor).toPrecision(15));
+  const rounded =
+    mode === 'up'
+      ? Math.ceil(scaled)
+      : mode === 'down'
+        ? Math.floor(scaled)
+        : Math.round(scaled);
+  return Number((rounded / factor).toFixed(decimals));
+}
+
+// Rounds a price to the tick the exchange accepts for an asset
+export function roundPrice(
+  px: number,
+  szDecimals: number,
+  isSpot: boolean,
+  mode?: RoundingMode
+): number;
+export function roundPrice(
+  px: string,
+  szDecimals: number,
+  isSpot: boolean,
+  mode?: RoundingMode
+): string;
+export function roundPrice(
+  px: DecimalValue,
+  szDecimals: number,
+  isSpot: boolean,
+  mode?: RoundingMode
+): DecimalValue;
+export function roundPrice(
+  px: DecimalValue,
+  szDecimals: number,
+  isSpot: boolean,
+  mode: RoundingMode = 'nearest'
+): DecimalValue {
+  let magnitude: number;
+  if (typeof px === 'string') {
+    if (Number(px) === 0) {
+      return normalizeDecimal(px);
+    }
+    magnitude = decimalMagnitude(px);
+  } else {
+    if (px === 0 || !Number.isFinite(px)) {
+      return px;
+    }
+    magnitude = Math.floor(Math.log10(Math.abs(px)));
+  }
+  const significantDecimals = MAX_PRICE_SIGNIFICANT_FIGURES - 1 - magnitude;
+  const decimals = Math.max(
+    Math.min(significantDecimals, maxPriceDecimals(szDecimals, isSpot)),
+    0
+  );
+  return roundToDecimals(px, decimals, mode);
+}
+
+// Limit prices round in the trader's favour: buys down, sells up, so they never cross further than requested
+export function roundPriceForSide(
+  px: number,
+  szDecimals: number,
+  isSpot: boolean,
+  isBuy: boolean
+): number;
+export function roundPriceForSide(
+  px: string,
+  szDecimals: number,
+  isSpot: boolean,
+  isBuy: boolean
+): string;
+export function roundPriceForSide(
+  px: DecimalValue,
+  szDecimals: number,
+  isSpot: boolean,
+  isBuy: boolean
+): DecimalValue;
+export function roundPriceForSide(
+  px: DecimalValue,
+  szDecimals: number,
+  isSpot: boolean,
+  isBuy: boolean
+): DecimalValue {
+  return roundPrice(px, szDecimals, isSpot, isBuy ? 'down' : 'up');
+}
+
+// Sizes round down by default so an order never exceeds the requested size
+export function roundSize(
+  sz: number,
+  szDecimals: number,
+  mode?: RoundingMode
+): number;
+export function roundSize(
+  sz: string,
+  szDecimals: number,
+  mode?: RoundingMode
+): string;
+export function roundSize(
+  sz: DecimalValue,
+  szDecimals: number,
+  mode?: RoundingMode
+): DecimalValue;
+export function roundSize(
+  sz: DecimalValue,
+  szDecimals: number,
+  mode: RoundingMode = 'down'
+): DecimalValue {
+  return roundToDecimals(sz, szDecimals, mode);
+}
@@ -1,34 +1,598 @@
+import { ExchangeType, InfoType } from '../types/constants';
+import { HyperliquidAPIError, RateLimitError } from './errors';
+import type {
+  RateLimitBucket,
+  RateLimitKeyValue,
+  RateLimitScriptEval,
+  RateLimitStore,
+  RateLimitTakeResult,
+  RateLimiterOptions,
+  RequestPriority,
+  UserRateLimit,
+} from '../types';
+
+// Documented REST limits: 1200 weight per minute per IP, refilled continuously
+export const RATE_LIMIT_CAPACITY = 1200;
+export const RATE_LIMIT_WINDOW_MS = 60000;
+
+const DEFAULT_INFO_WEIGHT = 20;
+
+const INFO_WEIGHTS: { [type: string]: number } = {
+  [InfoType.L2_BOOK]: 2,
+  [InfoType.ALL_MIDS]: 2,
+  [InfoType.PERPS_CLEARINGHOUSE_STATE]: 2,
+  [InfoType.ORDER_STATUS]: 2,
+  [InfoType.SPOT_CLEARINGHOUSE_STATE]: 2,
+  exchangeStatus: 2,
+  userRole: 60,
+};
+
+// Info requests whose weight grows with the response, one extra unit per this many items
+const RESPONSE_ITEMS_PER_WEIGHT: { [type: string]: number } = {
+  [InfoType.USER_FILLS]: 20,
+  [InfoType.USER_FILLS_BY_TIME]: 20,
+  [InfoType.USER_FUNDING]: 20,
+  [InfoType.USER_NON_FUNDING_LEDGER_UPDATES]: 20,
+  [InfoType.FUNDING_HISTORY]: 20,
+  [InfoType.USER_TWAP_SLICE_FILLS]: 20,
+  [InfoType.DELEGATOR_HISTORY]: 20,
+  [InfoType.DELEGATOR_REWARDS]: 20,
+  recentTrades: 20,
+  historicalOrders: 20,
+  twapHistory: 20,
+  userTwapSliceFillsByTime: 20,
+  validatorStats: 20,
+  [InfoType.CANDLE_SNAPSHOT]: 60,
+};
+
+export function getInfoWeight(type: string): number {
+  return INFO_WEIGHTS[type] ?? DEFAULT_INFO_WEIGHT;
+}
+
+// Number of orders, cancels or modifies carried by an exchange action, 0 for unbatched actions
+export function getBatchLength(action: any): number {
+  const batch = action?.orders ?? action?.cancels ?? action?.modifies;
+  return Array.isArray(batch) ? batch.length : 0;
+}
+
+export function getExchangeWeight(action: any): number {
+  return 1 + Math.floor(getBatchLength(action) / 40);
+}
+
+export function getResponseWeight(type: string, response: unknown): number {
+  const itemsPerWeight = RESPONSE_ITEMS_PER_WEIGHT[type];
+  if (!itemsPerWeight || !Array.isArray(response)) {
+    return 0;
+  }
+  return Math.floor(response.length / itemsPerWeight);
+}
+
+// History backfills can wait behind everything else
+const LOW_PRIORITY_INFO_TYPES: string[] = [
+  InfoType.USER_FILLS_BY_TIME,
+  InfoType.USER_FUNDING,
+  InfoType.USER_NON_FUNDING_LEDGER_UPDATES,
+  InfoType.FUNDING_HISTORY,
+  InfoType.CANDLE_SNAPSHOT,
+  InfoType.DELEGATOR_HISTORY,
+  InfoType.DELEGATOR_REWARDS,
+];
+
+const CANCEL_ACTION_TYPES: string[] = [
+  ExchangeType.CANCEL,
+  ExchangeType.CANCEL_BY_CLOID,
+  ExchangeType.SCHEDULE_CANCEL,
+  ExchangeType.TWAP_CANCEL,
+];
+
+export function getInfoPriority(type: string): RequestPriority {
+  return LOW_PRIORITY_INFO_TYPES.includes(type) ? 'low' : 'normal';
+}
+
+// Cancels and reduce-only orders shrink risk, so they never wait behind anything else.
+// A requested priority only applies to other actions, it can't demote these.
+export function getExchangePriority(
+  action: any,
+  requested?: RequestPriority
+): RequestPriority {
+  if (CANCEL_ACTION_TYPES.includes(action?.type)) {
+    return 'high';
+  }
+  const orders = action?.orders;
+  if (
+    action?.type === ExchangeType.ORDER &&
+    Array.isArray(orders) &&
+    orders.length > 0 &&
+    orders.every((order: { r: boolean }) => order.r)
+  ) {
+    return 'high';
+  }
+  return requested ?? 'normal';
+}
+
+const PRIORITIES: RequestPriority[] = ['high', 'normal', 'low'];
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Refills the bucket up to now, then removes cost if it holds enough (or always when forced)
+function takeFromBucket(
+  state: BucketState | null,
+  now: number,
+  cost: number,
+  { capacity, refillPerMs }: RateLimitBucket,
+  force: boolean
+): { state: BucketState; granted: boolean } {
+  const previous = state ?? { tokens: capacity, updatedAt: now };
+  let tokens = Math.min(
+    capacity,
+    previous.tokens + Math.max(0, now - previous.updatedAt) * refillPerMs
+  );
+  const granted = force || tokens >= cost;
+  if (granted) {
+    tokens -= cost;
+  }
+  return { state: { tokens, updatedAt: now }, granted };
+}
+
+// Keeps buckets in this process, every RateLimiter sharing the store shares its budget
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets: Map<string, BucketState> = new Map();
+  private clock: () => number;
+
+  constructor(clock: () => number = Date.now) {
+    this.clock = clock;
+  }
+
+  async take(
+    key: string,
+    cost: number,
+    bucket: RateLimitBucket,
+    force: boolean = false
+  ): Promise<RateLimitTakeResult> {
+    const { state, granted } = takeFromBucket(
+      this.buckets.get(key) ?? null,
+      this.clock(),
+      cost,
+      bucket,
+      force
+    );
+    this.buckets.set(key, state);
+    return { granted, tokens: state.tokens };
+  }
+}
+
+// Keeps buckets in any shared storage with an atomic compare-and-set, retrying when another
+// process wrote the bucket in between. Processes should run on synced clocks.
+export class KeyValueRateLimitStore implements RateLimitStore {
+  private kv: RateLimitKeyValue;
+  private clock: () => number;
+  private maxAttempts: number;
+
+  constructor(
+    kv: RateLimitKeyValue,
+    {
+      clock = Date.now,
+      maxAttempts = 10,
+    }: { clock?: () => number; maxAttempts?: number } = {}
+  ) {
+    this.kv = kv;
+    this.clock = clock;
+    this.maxAttempts = maxAttempts;
+  }
+
+  async take(
+    key: string,
+    cost: number,
+    bucket: RateLimitBucket,
+    force: boolean = false
+  ): Promise<RateLimitTakeResult> {
+    for (let attempt = 0; attempt < this.maxAttempts; attempt++) {
+      const stored = await this.kv.get(key);
+      const { state, granted } = takeFromBucket(
+        stored === null ? null : JSON.parse(stored),
+        this.clock(),
+        cost,
+        bucket,
+        force
+      );
+      if (await this.kv.compareAndSet(key, stored, JSON.stringify(state))) {
+        return { granted, tokens: state.tokens };
+      }
+    }
+    throw new RateLimitError(
+      'STORE_CONFLICT',
+      `Rate limit bucket ${key} kept changing over ${this.maxAttempts} attempts`
+    );
+  }
+}
+
+// Refill and take in one step on the Redis server, timed by its clock so workers needn't be synced.
+// KEYS[1] is the bucket, ARGV is cost, capacity, refillPerMs and force (1 or 0).
+export const REDIS_RATE_LIMIT_SCRIPT = `
+local cost = tonumber(ARGV[1])
+local capacity = tonumber(ARGV[2])
+local refill_per_ms = tonumber(ARGV[3])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(state[1]) or capacity
+local updated_at = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - updated_at) * refill_per_ms)
+local granted = 0
+if ARGV[4] == '1' or tokens >= cost then
+  tokens = tokens - cost
+  granted = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / refill_per_ms) + 1000)
+return {granted, tostring(tokens)}
+`;
+
+// Runs REDIS_RATE_LIMIT_SCRIPT through the given eval, e.g. with ioredis:
+// (script, key, args) => redis.eval(script, 1, key, ...args)
+export class RedisRateLimitStore implements RateLimitStore {
+  private evaluate: RateLimitScriptEval;
+
+  constructor(evaluate: RateLimitScriptEval) {
+    this.evaluate = evaluate;
+  }
+
+  async take(
+    key: string,
+    cost: number,
+    { capacity, refillPerMs }: RateLimitBucket,
+    force: boolean = false
+  ): Promise<RateLimitTakeResult> {
+    const [granted, tokens] = (await this.evaluate(
+      REDIS_RATE_LIMIT_SCRIPT,
+      key,
+      [String(cost), String(capacity), String(refillPerMs), force ? '1' : '0']
+    )) as [number, string];
+    return { granted: Number(granted) === 1, tokens: Number(tokens) };
+  }
+}
+
+interface Waiter {
+  cost: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+interface AddressBudget {
+  used: number;
+  cap: number;
+}
+
+interface LowBudgetListener {
+  threshold: number;
+  callback: (remaining: number) => void;
+  armed: boolean;
+}
+
+interface LowAddressBudgetListener {
+  threshold: number;
+  callback: (address: string, remaining: number) => void;
+  disarmed: Set<string>;
+}
+
 export class RateLimiter {
   private tokens: number;
   private lastRefill: number;
   private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private readonly maxQueueSize: number;
+  private readonly store: RateLimitStore;
+  private readonly key: string;
+  private queues: Record<RequestPriority, Waiter[]> = {
+    high: [],
+    normal: [],
+    low: [],
+  };
+  private drainTimer: ReturnType<typeof setTimeout> | null = null;
+  private draining: boolean = false;
+  private disposed: boolean = false;
+  private addressBudgets: Map<string, AddressBudget> = new Map();
+  private lowBudgetListeners: LowBudgetListener[] = [];
+  private lowAddressBudgetListeners: LowAddressBudgetListener[] = [];
 
-  constructor() {
-    this.capacity = 1200; // 1200 tokens per minute
+  constructor({
+    capacity = RATE_LIMIT_CAPACITY,
+    maxQueueSize = Infinity,
+    store = new MemoryRateLimitStore(),
+    key = 'hyperliquid',
+  }: RateLimiterOptions = {}) {
+    this.capacity = capacity;
+    this.refillPerMs = capacity / RATE_LIMIT_WINDOW_MS;
+    this.maxQueueSize = maxQueueSize;
+    this.store = store;
+    this.key = key;
     this.tokens = this.capacity;
     this.lastRefill = Date.now();
   }
 
-  private refillTokens() {
-    const now = Date.now();
-    const elapsedMinutes = (now - this.lastRefill) / (1000 * 60); // convert to minutes
-    if (elapsedMinutes >= 1) {
-      this.tokens = this.capacity;
-      this.lastRefill = now;
+  // Every bucket change goes through the store, the local copy only serves estimates and scheduling
+  private async take(
+    cost: number,
+    force: boolean = false
+  ): Promise<RateLimitTakeResult> {
+    const result = await this.store.take(
+      this.key,
+      cost,
+      { capacity: this.capacity, refillPerMs: this.refillPerMs },
+      force
+    );
+    this.tokens = result.tokens;
+    this.lastRefill = Date.now();
+    // The level right before this take, so a refill between two takes re-arms the listeners
+    this.notifyLowBudget(
+      Math.max(result.tokens, result.tokens + (result.granted ? cost : 0))
+    );
+    return result;
+  }
+
+  private notifyLowBudget(previous: number): void {
+    const remaining = this.getRemainingWeight();
+    for (const listener of this.lowBudgetListeners) {
+      if (previous >= listener.threshold) {
+        listener.armed = true;
+      }
+      if (remaining < listener.threshold && listener.armed) {
+        listener.armed = false;
+        listener.callback(remaining);
+      }
+    }
+  }
+
+  private getQueuedCount(): number {
+    return PRIORITIES.reduce(
+      (count, priority) => count + this.queues[priority].length,
+      0
+    );
+  }
+
+  private getQueuedWeight(): number {
+    return PRIORITIES.reduce(
+      (weight, priority) =>
+        weight +
+        this.queues[priority].reduce((sum, waiter) => sum + waiter.cost, 0),
+      0
+    );
+  }
+
+  private nextWaiter(): Waiter | undefined {
+    for (const priority of PRIORITIES) {
+      const waiter = this.queues[priority][0];
+      if (waiter) {
+        return waiter;
+      }
+    }
+    return undefined;
+  }
+
+  private removeWaiter(waiter: Waiter): boolean {
+    for (const priority of PRIORITIES) {
+      const index = this.queues[priority].indexOf(waiter);
+      if (index !== -1) {
+        this.queues[priority].splice(index, 1);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private scheduleDrain(): void {
+    if (this.draining) {
+      return;
+    }
+    if (this.drainTimer !== null) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = null;
+    }
+    this.drain().catch((error) => {
+      for (const priority of PRIORITIES) {
+        for (const waiter of this.queues[priority].splice(0)) {
+          waiter.cleanup();
+          waiter.reject(error);
+        }
+      }
+    });
+  }
+
+  // Releases waiters in priority order, FIFO within a class, and sleeps until the head can be covered
+  private async drain(): Promise<void> {
+    this.draining = true;
+    try {
+      let waiter = this.nextWaiter();
+      while (waiter) {
+        const { granted } = await this.take(waiter.cost);
+        if (!granted) {
+          // The head may have been aborted while the store was answering, a cheaper one could fit now
+          const head = this.nextWaiter();
+          if (head === waiter) {
+            break;
+          }
+          waiter = head;
+          continue;
+        }
+        if (this.removeWaiter(waiter)) {
+          waiter.cleanup();
+          waiter.resolve();
+        } else {
+          // Aborted or disposed while the store was answering, give the weight back
+          await this.take(-waiter.cost, true);
+        }
+        waiter = this.nextWaiter();
+      }
+      if (waiter && !this.disposed) {
+        const waitTime = Math.max(
+          1,
+          Math.ceil((waiter.cost - this.tokens) / this.refillPerMs)
+        );
+        this.drainTimer = setTimeout(() => {
+          this.drainTimer = null;
+          this.scheduleDrain();
+        }, waitTime);
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  // Every call queues, even with tokens to spare, so the single drain loop keeps priority and FIFO order
+  // and sees an abort or dispose that lands while the store is answering
+  async waitForToken(
+    weight: number = 1,
+    priority: RequestPriority = 'normal',
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (this.disposed) {
+      throw new RateLimitError('DISPOSED', 'Rate limiter has been disposed');
+    }
+    if (signal?.aborted) {
+      throw new HyperliquidAPIError('ABORTED', 'Request was aborted');
+    }
+    // A weight above capacity could never be covered, it waits for a full bucket instead
+    const cost = Math.min(weight, this.capacity);
+    // Calls the bucket can already cover only queue for their store round-trip, they don't count as waiting
+    if (
+      this.getQueuedCount() >= this.maxQueueSize &&
+      this.getQueuedWeight() + cost > this.getRemainingWeight()
+    ) {
+      throw new RateLimitError(
+        'QUEUE_FULL',
+        `Rate limiter queue is full (${this.maxQueueSize} requests waiting)`
+      );
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.removeWaiter(waiter);
+        reject(new HyperliquidAPIError('ABORTED', 'Request was aborted'));
+        this.scheduleDrain();
+      };
+      const waiter: Waiter = {
+        cost,
+        resolve,
+        reject,
+        cleanup: () => signal?.removeEventListener('abort', onAbort),
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queues[priority].push(waiter);
+      this.scheduleDrain();
+    });
+  }
+
+  // Rejects every pending wait and any later one, for when the client shuts down
+  dispose(): void {
+    this.disposed = true;
+    if (this.drainTimer !== null) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = null;
+    }
+    for (const priority of PRIORITIES) {
+      for (const waiter of this.queues[priority].splice(0)) {
+        waiter.cleanup();
+        waiter.reject(
+          new RateLimitError('DISPOSED', 'Rate limiter has been disposed')
+        );
+      }
+    }
+  }
+
+  getQueuedRequests(): number {
+    return this.getQueuedCount();
+  }
+
+  // Charges weight that is only known after the fact, such as per-item response weight.
+  // The bucket may go negative, which delays the next requests until it has refilled.
+  async charge(weight: number): Promise<void> {
+    if (weight > 0) {
+      await this.take(weight, true);
     }
   }
 
-  async waitForToken(weight: number = 1): Promise<void> {
-    this.refillTokens();
-    if (this.tokens >= weight) {
-      this.tokens -= weight;
+  // Estimated from the last store update, other clients sharing the store may have used some since
+  getRemainingWeight(): number {
+    const tokens = Math.min(
+      this.capacity,
+      this.tokens + (Date.now() - this.lastRefill) * this.refillPerMs
+    );
+    return Math.max(0, Math.floor(tokens));
+  }
+
+  getCapacity(): number {
+    return this.capacity;
+  }
+
+  // Calls back once each time the remaining weight drops below threshold, returns an unsubscribe function
+  onLowBudget(
+    threshold: number,
+    callback: (remaining: number) => void
+  ): () => void {
+    const listener = { threshold, callback, armed: true };
+    this.lowBudgetListeners.push(listener);
+    return () => {
+      this.lowBudgetListeners = this.lowBudgetListeners.filter(
+        (l) => l !== listener
+      );
+    };
+  }
+
+  // Same for the per-address action budget, once it has been seeded
+  onLowAddressBudget(
+    threshold: number,
+    callback: (address: string, remaining: number) => void
+  ): () => void {
+    const listener = { threshold, callback, disarmed: new Set<string>() };
+    this.lowAddressBudgetListeners.push(listener);
+    return () => {
+      this.lowAddressBudgetListeners = this.lowAddressBudgetListeners.filter(
+        (l) => l !== listener
+      );
+    };
+  }
+
+  private notifyLowAddressBudget(address: string): void {
+    const remaining = this.getRemainingAddressActions(address);
+    if (remaining === undefined) {
       return;
     }
+    for (const listener of this.lowAddressBudgetListeners) {
+      if (remaining >= listener.threshold) {
+        listener.disarmed.delete(address);
+      } else if (!listener.disarmed.has(address)) {
+        listener.disarmed.add(address);
+        listener.callback(address, remaining);
+      }
+    }
+  }
 
-    const waitTime = (60 - (Date.now() - this.lastRefill) / 1000) * 1000; // wait until next refill
-    return new Promise((resolve) => setTimeout(resolve, waitTime)).then(() => {
-      this.refillTokens();
-      return this.waitForToken(weight); // recursively check again after refill
+  // Address-based limits count every order or cancel of a batch, and grow with traded volume
+  seedAddressBudget(address: string, rateLimit: UserRateLimit): void {
+    const key = address.toLowerCase();
+    this.addressBudgets.set(key, {
+      used: rateLimit.nRequestsUsed,
+      cap: rateLimit.nRequestsCap,
     });
+    this.notifyLowAddressBudget(key);
+  }
+
+  consumeAddressBudget(address: string, requests: number = 1): void {
+    const key = address.toLowerCase();
+    const budget = this.addressBudgets.get(key);
+    if (budget) {
+      budget.used += requests;
+      this.notifyLowAddressBudget(key);
+    }
+  }
+
+  // Actions left before the address is throttled, undefined until seeded from getUserRateLimit
+  getRemainingAddressActions(address: string): number | undefined {
+    const budget = this.addressBudgets.get(address.toLowerCase());
+    return budget ? Math.max(0, budget.cap - budget.used) : undefined;
   }
 }
@@ -0,0 +1,91 @@
+import { ethers, type AbstractSigner } from 'ethers';
+import type { HyperliquidSigner, TypedDataPayload } from '../types';
+
+// Signs with a raw private key held in memory, this is what the Hyperliquid constructor uses for string keys
+export class PrivateKeySigner implements HyperliquidSigner {
+  private wallet: ethers.Wallet;
+
+  constructor(privateKey: string) {
+    const formattedPrivateKey = privateKey.startsWith('0x')
+      ? privateKey
+      : `0x${privateKey}`;
+    this.wallet = new ethers.Wallet(formattedPrivateKey);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.wallet.address;
+  }
+
+  async signTypedData(payload: TypedDataPayload): Promise<string> {
+    return this.wallet.signTypedData(
+      payload.domain,
+      payload.types,
+      payload.message
+    );
+  }
+}
+
+// Adapts any ethers v6 signer: browser providers, WalletConnect, hardware wallets or custom AbstractSigner subclasses
+export class EthersSigner implements HyperliquidSigner {
+  private signer: AbstractSigner;
+
+  constructor(signer: AbstractSigner) {
+    this.signer = signer;
+  }
+
+  async getAddress(): Promise<string> {
+    return this.signer.getAddress();
+  }
+
+  async signTypedData(payload: TypedDataPayload): Promise<string> {
+    return this.signer.signTypedData(
+      payload.domain,
+      payload.types,
+      payload.message
+    );
+  }
+}
+
+type Address = `0x${string}`;
+type WalletClientAccount = Address | { address: Address };
+
+// Structural subset of a viem WalletClient, so viem doesn't need to be a dependency
+interface WalletClientLike {
+  account?: { address: Address };
+  getAddresses?(): Promise<readonly Address[]>;
+  signTypedData(
+    params: TypedDataPayload & { account?: WalletClientAccount }
+  ): Promise<string>;
+}
+
+// Adapts a viem WalletClient, using its hoisted account unless one is passed explicitly
+export class WalletClientSigner implements HyperliquidSigner {
+  private client: WalletClientLike;
+  private account: WalletClientAccount | undefined;
+
+  constructor(client: WalletClientLike, account?: WalletClientAccount) {
+    this.client = client;
+    this.account = account ?? client.account;
+  }
+
+  async getAddress(): Promise<Address> {
+    if (typeof this.account === 'string') {
+      return this.account;
+    }
+    if (this.account) {
+      return this.account.address;
+    }
+    const [address] = (await this.client.getAddresses?.()) ?? [];
+    if (!address) {
+      throw new Error('Wallet client has no account to sign with');
+    }
+    return address;
+  }
+
+  async signTypedData(payload: TypedDataPayload): Promise<string> {
+    return this.client.signTypedData({
+      ...payload,
+      account: this.account ?? (await this.getAddress()),
+    });
+  }
+}
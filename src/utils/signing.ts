@@ -1,12 +1,5 @@
 import { encode } from '@msgpack/msgpack';
-import {
-  AbstractSigner,
-  ethers,
-  getBytes,
-  HDNodeWallet,
-  keccak256,
-  type Wallet,
-} from 'ethers';
+import { AbstractSigner, ethers, getBytes, keccak256 } from 'ethers';
 
 import type {
   OrderType,
@@ -16,7 +9,15 @@ import type {
   Grouping,
   Order,
   Builder,
+  BuilderWire,
+  TwapOrder,
+  TwapWire,
+  HyperliquidSigner,
+  DecimalValue,
 } from '../types';
+import { decimalPlaces, decimalToInt, normalizeDecimal } from './decimal';
+import { roundPrice, roundPriceForSide, roundSize } from './precision';
+import { EthersSigner } from './signer';
 
 const phantomDomain = {
   chainId: 1337,
@@ -32,14 +33,23 @@ const agentTypes = {
   ],
 } as const;
 
-export function orderTypeToWire(orderType: OrderType): OrderType {
+export function orderTypeToWire(
+  orderType: OrderType,
+  szDecimals?: number,
+  isSpot: boolean = false
+): OrderType {
   if (orderType.limit) {
     return { limit: orderType.limit };
   } else if (orderType.trigger) {
+    const triggerPx = orderType.trigger.triggerPx;
     return {
       trigger: {
         isMarket: orderType.trigger.isMarket,
-        triggerPx: floatToWire(Number(orderType.trigger.triggerPx)),
+        triggerPx: floatToWire(
+          szDecimals === undefined
+            ? triggerPx
+            : roundPrice(triggerPx, szDecimals, isSpot)
+        ),
         tpsl: orderType.trigger.tpsl,
       },
     };
@@ -51,14 +61,18 @@ function addressToBytes(address: string): Uint8Array {
   return getBytes(address);
 }
 
-function actionHash(
+export function actionHash(
   action: unknown,
   vaultAddress: string | null,
-  nonce: number
+  nonce: number,
+  expiresAfter: number | null = null
 ): string {
   const msgPackBytes = encode(action);
-  const additionalBytesLength = vaultAddress === null ? 9 : 29;
-  const data = new Uint8Array(msgPackBytes.length + additionalBytesLength);
+  const vaultBytesLength = vaultAddress === null ? 9 : 29;
+  const expiresAfterBytesLength = expiresAfter === null ? 0 : 9;
+  const data = new Uint8Array(
+    msgPackBytes.length + vaultBytesLength + expiresAfterBytesLength
+  );
   data.set(msgPackBytes);
   const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
   view.setBigUint64(msgPackBytes.length, BigInt(nonce), false);
@@ -68,6 +82,11 @@ function actionHash(
     view.setUint8(msgPackBytes.length + 8, 1);
     data.set(addressToBytes(vaultAddress), msgPackBytes.length + 9);
   }
+  if (expiresAfter !== null) {
+    const offset = msgPackBytes.length + vaultBytesLength;
+    view.setUint8(offset, 0);
+    view.setBigUint64(offset + 1, BigInt(expiresAfter), false);
+  }
   return keccak256(data);
 }
 
@@ -75,14 +94,17 @@ function constructPhantomAgent(hash: string, isMainnet: boolean) {
   return { source: isMainnet ? 'a' : 'b', connectionId: hash };
 }
 
+type SigningWallet = AbstractSigner | HyperliquidSigner;
+
 export async function signL1Action(
-  wallet: Wallet | HDNodeWallet,
+  wallet: SigningWallet,
   action: unknown,
   activePool: string | null,
   nonce: number,
-  isMainnet: boolean
+  isMainnet: boolean,
+  expiresAfter: number | null = null
 ): Promise<Signature> {
-  const hash = actionHash(action, activePool, nonce);
+  const hash = actionHash(action, activePool, nonce, expiresAfter);
   const phantomAgent = constructPhantomAgent(hash, isMainnet);
   const data = {
     domain: phantomDomain,
@@ -94,7 +116,7 @@ export async function signL1Action(
 }
 
 export async function signUserSignedAction(
-  wallet: Wallet,
+  wallet: SigningWallet,
   action: any,
   payloadTypes: Array<{ name: string; type: string }>,
   primaryType: string,
@@ -120,7 +142,7 @@ export async function signUserSignedAction(
 }
 
 export async function signUsdTransferAction(
-  wallet: Wallet,
+  wallet: SigningWallet,
   action: any,
   isMainnet: boolean
 ): Promise<Signature> {
@@ -139,7 +161,7 @@ export async function signUsdTransferAction(
 }
 
 export async function signWithdrawFromBridgeAction(
-  wallet: Wallet,
+  wallet: SigningWallet,
   action: any,
   isMainnet: boolean
 ): Promise<Signature> {
@@ -158,7 +180,7 @@ export async function signWithdrawFromBridgeAction(
 }
 
 export async function signAgent(
-  wallet: Wallet,
+  wallet: SigningWallet,
   action: any,
   isMainnet: boolean
 ): Promise<Signature> {
@@ -176,28 +198,17 @@ export async function signAgent(
   );
 }
 
-async function signInner(
-  wallet: Wallet | HDNodeWallet,
-  data: any
-): Promise<Signature> {
-  if (isAbstractWalletClient(wallet)) {
-    const signature = await wallet.signTypedData({
-      domain: data.domain,
-      types: data.types,
-      primaryType: data.primaryType,
-      message: data.message,
-    });
-    return splitSig(signature);
-  } else if (isAbstractSigner(wallet)) {
-    const signature = await wallet.signTypedData(
-      data.domain,
-      data.types,
-      data.message
-    );
-    return splitSig(signature);
-  } else {
-    throw new Error('Unsupported wallet for signing typed data');
-  }
+// Everything signs through HyperliquidSigner, ethers wallets handed to these helpers directly are wrapped first
+async function signInner(wallet: SigningWallet, data: any): Promise<Signature> {
+  const signer: HyperliquidSigner =
+    wallet instanceof AbstractSigner ? new EthersSigner(wallet) : wallet;
+  const signature = await signer.signTypedData({
+    domain: data.domain,
+    types: data.types,
+    primaryType: data.primaryType,
+    message: data.message,
+  });
+  return splitSig(signature);
 }
 
 function splitSig(sig: string): Signature {
@@ -205,7 +216,14 @@ function splitSig(sig: string): Signature {
   return { r, s, v };
 }
 
-export function floatToWire(x: number): string {
+export function floatToWire(x: DecimalValue): string {
+  if (typeof x === 'string') {
+    // Decimal strings are already exact, only the formatting has to match the number path
+    if (decimalPlaces(x) > 8) {
+      throw new Error(`floatToWire causes rounding: ${x}`);
+    }
+    return normalizeDecimal(x);
+  }
   const rounded = x.toFixed(8);
   if (Math.abs(parseFloat(rounded) - x) >= 1e-12) {
     throw new Error(`floatToWire causes rounding: ${x}`);
@@ -215,15 +233,18 @@ export function floatToWire(x: number): string {
   return normalized;
 }
 
-export function floatToIntForHashing(x: number): number {
+export function floatToIntForHashing(x: DecimalValue): number {
   return floatToInt(x, 8);
 }
 
-export function floatToUsdInt(x: number): number {
+export function floatToUsdInt(x: DecimalValue): number {
   return floatToInt(x, 6);
 }
 
-function floatToInt(x: number, power: number): number {
+function floatToInt(x: DecimalValue, power: number): number {
+  if (typeof x === 'string') {
+    return decimalToInt(x, power);
+  }
   const withDecimals = x * Math.pow(10, power);
   if (Math.abs(Math.round(withDecimals) - withDecimals) >= 1e-3) {
     throw new Error(`floatToInt causes rounding: ${x}`);
@@ -235,14 +256,38 @@ export function getTimestampMs(): number {
   return Date.now();
 }
 
-export function orderToWire(order: Order, asset: number): OrderWire {
+// Rounds a size down to the asset's lot, refusing a non-zero size that would be sent as 0.
+// Trigger legs that deliberately carry sz 0 pass through unchanged.
+function roundOrderSize(sz: DecimalValue, szDecimals: number): DecimalValue {
+  const rounded = roundSize(sz, szDecimals);
+  if (Number(sz) !== 0 && Number(rounded) === 0) {
+    throw new Error(
+      `Order size ${sz} is below the minimum lot of ${(10 ** -szDecimals).toFixed(szDecimals)}`
+    );
+  }
+  return rounded;
+}
+
+// When szDecimals is known the price and size are rounded to what the exchange accepts for the asset
+export function orderToWire(
+  order: Order,
+  asset: number,
+  szDecimals?: number
+): OrderWire {
+  const isSpot = asset >= 10000;
   const orderWire: OrderWire = {
     a: asset,
     b: order.is_buy,
-    p: floatToWire(order.limit_px),
-    s: floatToWire(order.sz),
+    p: floatToWire(
+      szDecimals === undefined
+        ? order.limit_px
+        : roundPriceForSide(order.limit_px, szDecimals, isSpot, order.is_buy)
+    ),
+    s: floatToWire(
+      szDecimals === undefined ? order.sz : roundOrderSize(order.sz, szDecimals)
+    ),
     r: order.reduce_only,
-    t: orderTypeToWire(order.order_type),
+    t: orderTypeToWire(order.order_type, szDecimals, isSpot),
   };
   if (order.cloid !== undefined) {
     orderWire.c = order.cloid;
@@ -250,6 +295,23 @@ export function orderToWire(order: Order, asset: number): OrderWire {
   return orderWire;
 }
 
+export function twapOrderToWire(
+  twap: TwapOrder,
+  asset: number,
+  szDecimals?: number
+): TwapWire {
+  return {
+    a: asset,
+    b: twap.is_buy,
+    s: floatToWire(
+      szDecimals === undefined ? twap.sz : roundOrderSize(twap.sz, szDecimals)
+    ),
+    r: twap.reduce_only,
+    m: twap.minutes,
+    t: twap.randomize,
+  };
+}
+
 export interface CancelOrderResponse {
   status: string;
   response: {
@@ -276,46 +338,16 @@ export function orderWiresToOrderAction(
     type: 'order',
     orders: orderWires,
     grouping: grouping,
-    ...(builder !== undefined ? { builder: builder } : {}),
+    ...(builder !== undefined ? { builder: builderToWire(builder) } : {}),
   };
 }
 
-function hexToNumber(hex: Hex): number {
-  return parseInt(hex, 16);
+export function builderToWire(builder: Builder): BuilderWire {
+  return { b: builder.address.toLowerCase(), f: builder.fee };
 }
 
-interface AbstractWalletClient {
-  signTypedData(params: {
-    domain: {
-      name: string;
-      version: string;
-      chainId: number;
-      verifyingContract: Hex;
-    };
-    types: Record<string, Array<{ name: string; type: string }>>;
-    primaryType: string;
-    message: Record<string, unknown>;
-  }): Promise<Hex>;
-}
 type Hex = `0x${string}`;
 
-function isAbstractWalletClient(
-  client: unknown
-): client is AbstractWalletClient {
-  return (
-    typeof client === 'object' &&
-    client !== null &&
-    'signTypedData' in client &&
-    typeof client.signTypedData === 'function' &&
-    client.signTypedData.length === 1
-  );
-}
-function isAbstractSigner(client: unknown): client is AbstractSigner {
-  return (
-    typeof client === 'object' &&
-    client !== null &&
-    'signTypedData' in client &&
-    typeof client.signTypedData === 'function' &&
-    client.signTypedData.length === 3
-  );
+function hexToNumber(hex: Hex): number {
+  return parseInt(hex, 16);
 }
@@ -1,22 +1,43 @@
 import { HttpApi } from './helpers';
 import * as CONSTANTS from '../types/constants';
+import type { HttpTransport, NumericMode, RequestOptions } from '../types';
+import { szDecimalsFromMeta, szDecimalsFromSpotMeta } from './precision';
 
 export class SymbolConversion {
   private assetToIndexMap: Map<string, number> = new Map();
   private exchangeToInternalNameMap: Map<string, string> = new Map();
+  private szDecimalsMap: Map<string, number> = new Map();
   private httpApi: HttpApi;
   private refreshIntervalMs: number = 60000;
   private refreshInterval: NodeJS.Timeout | null = null;
+  private stopped: boolean = false;
   private initializationPromise: Promise<void>;
-
-  constructor(baseURL: string, rateLimiter: any) {
-    this.httpApi = new HttpApi(baseURL, CONSTANTS.ENDPOINTS.INFO, rateLimiter);
+  private numericMode: NumericMode;
+
+  constructor(
+    baseURL: string,
+    rateLimiter: any,
+    numericMode: NumericMode = 'number',
+    requestOptions: RequestOptions = {},
+    transport?: HttpTransport
+  ) {
+    this.httpApi = new HttpApi(
+      baseURL,
+      CONSTANTS.ENDPOINTS.INFO,
+      rateLimiter,
+      requestOptions,
+      transport
+    );
+    this.numericMode = numericMode;
     this.initializationPromise = this.initialize();
   }
 
   private async initialize(): Promise<void> {
     await this.refreshAssetMaps();
-    this.startPeriodicRefresh();
+    // Stopped while the first fetch was in flight, starting the interval now would keep the process alive
+    if (!this.stopped) {
+      this.startPeriodicRefresh();
+    }
   }
 
   private async refreshAssetMaps(): Promise<void> {
@@ -32,12 +53,17 @@ export class SymbolConversion {
 
       this.assetToIndexMap.clear();
       this.exchangeToInternalNameMap.clear();
+      this.szDecimalsMap.clear();
+
+      const perpSzDecimals = szDecimalsFromMeta(perpMeta[0]);
+      const spotSzDecimals = szDecimalsFromSpotMeta(spotMeta[0]);
 
       // Handle perpetual assets
       perpMeta[0].universe.forEach((asset: { name: string }, index: number) => {
         const internalName = `${asset.name}-PERP`;
         this.assetToIndexMap.set(internalName, index);
         this.exchangeToInternalNameMap.set(asset.name, internalName);
+        this.szDecimalsMap.set(internalName, perpSzDecimals.get(asset.name)!);
       });
 
       // Handle spot assets
@@ -51,6 +77,10 @@ export class SymbolConversion {
           const index = spotMeta[0].universe.indexOf(universeItem);
           this.assetToIndexMap.set(internalName, 10000 + index);
           this.exchangeToInternalNameMap.set(exchangeName, internalName);
+          this.szDecimalsMap.set(
+            internalName,
+            spotSzDecimals.get(exchangeName)!
+          );
         }
       });
     } catch (error) {
@@ -65,6 +95,7 @@ export class SymbolConversion {
   }
 
   public stopPeriodicRefresh(): void {
+    this.stopped = true;
     if (this.refreshInterval) {
       clearInterval(this.refreshInterval);
       this.refreshInterval = null;
@@ -102,6 +133,11 @@ export class SymbolConversion {
     return this.assetToIndexMap.get(assetSymbol);
   }
 
+  public async getSzDecimals(assetSymbol: string): Promise<number | undefined> {
+    await this.ensureInitialized();
+    return this.szDecimalsMap.get(assetSymbol);
+  }
+
   public async getAllAssets(): Promise<{ perp: string[]; spot: string[] }> {
     await this.ensureInitialized();
     const perp: string[] = [];
@@ -189,8 +225,13 @@ export class SymbolConversion {
     return convertedObj;
   }
 
+  getNumericMode(): NumericMode {
+    return this.numericMode;
+  }
+
+  // In 'string' mode numeric strings are passed through untouched so no precision is lost
   convertToNumber(value: any): any {
-    if (typeof value === 'string') {
+    if (typeof value === 'string' && this.numericMode === 'number') {
       if (/^-?\d+$/.test(value)) {
         return parseInt(value, 10);
       } else if (/^-?\d*\.\d+$/.test(value)) {
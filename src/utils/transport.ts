@@ -0,0 +1,87 @@
+import type { AxiosInstance } from 'axios';
+import { HyperliquidAPIError, toApiError } from './errors';
+import type {
+  HttpTransport,
+  HttpTransportRequest,
+  HttpTransportResponse,
+} from '../types';
+
+// Transports resolve with any HTTP status and reject only when no response arrived,
+// with a HyperliquidAPIError coded TIMEOUT, ABORTED or NETWORK_ERROR
+
+// Default transport, fetch is available natively in React Native, browsers and Node 18+
+export class FetchTransport implements HttpTransport {
+  async post(request: HttpTransportRequest): Promise<HttpTransportResponse> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer =
+      request.timeout !== undefined
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, request.timeout)
+        : undefined;
+    const onAbort = () => controller.abort();
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      if (request.signal?.aborted) {
+        controller.abort();
+      }
+      const response = await fetch(request.url, {
+        method: 'POST',
+        headers: request.headers,
+        body: JSON.stringify(request.body),
+        signal: controller.signal,
+      });
+      const text = await response.text();
+      let data: any = text;
+      try {
+        data = text ? JSON.parse(text) : null;
+      } catch {
+        // Not JSON, keep the body as text
+      }
+      return { status: response.status, data };
+    } catch (error: any) {
+      if (timedOut) {
+        throw new HyperliquidAPIError(
+          'TIMEOUT',
+          `Request timed out after ${request.timeout}ms`
+        );
+      }
+      if (controller.signal.aborted) {
+        throw new HyperliquidAPIError('ABORTED', 'Request was aborted');
+      }
+      throw new HyperliquidAPIError(
+        'NETWORK_ERROR',
+        error?.message || 'No response received from the server'
+      );
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+// Sends requests through an axios instance the app provides, axios is only a peer dependency
+export class AxiosTransport implements HttpTransport {
+  private client: AxiosInstance;
+
+  constructor(client: AxiosInstance) {
+    this.client = client;
+  }
+
+  async post(request: HttpTransportRequest): Promise<HttpTransportResponse> {
+    try {
+      const response = await this.client.post(request.url, request.body, {
+        headers: request.headers,
+        timeout: request.timeout,
+        signal: request.signal,
+        validateStatus: () => true,
+      });
+      return { status: response.status, data: response.data };
+    } catch (error) {
+      throw toApiError(error);
+    }
+  }
+}
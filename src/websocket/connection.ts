@@ -1,74 +1,278 @@
 import { EventEmitter } from 'events';
 
 import * as CONSTANTS from '../types/constants';
+import type {
+  ConnectionState,
+  ReconnectPolicy,
+  WebSocketClientEvents,
+  WebSocketClientOptions,
+} from '../types';
 
+const DEFAULT_RECONNECT_POLICY: Required<ReconnectPolicy> = {
+  maxAttempts: Infinity,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: 0.5,
+};
+
+// Typed overloads for the events below, on top of EventEmitter's untyped ones
+export interface WebSocketClient {
+  on<E extends keyof WebSocketClientEvents>(
+    event: E,
+    listener: (...args: WebSocketClientEvents[E]) => void
+  ): this;
+  once<E extends keyof WebSocketClientEvents>(
+    event: E,
+    listener: (...args: WebSocketClientEvents[E]) => void
+  ): this;
+  off<E extends keyof WebSocketClientEvents>(
+    event: E,
+    listener: (...args: WebSocketClientEvents[E]) => void
+  ): this;
+  emit<E extends keyof WebSocketClientEvents>(
+    event: E,
+    ...args: WebSocketClientEvents[E]
+  ): boolean;
+}
+
+// Browsers and React Native can't stop reading a WebSocket, the ws package can
+function pausableSocket(socket: WebSocket): {
+  pause?(): void;
+  resume?(): void;
+} {
+  return socket as WebSocket & { pause?(): void; resume?(): void };
+}
+
+// State machine: closed -> connecting -> open, then on a drop reconnecting -> open again,
+// or failed once the reconnect policy gives up. close() always ends in closed.
 export class WebSocketClient extends EventEmitter {
   private ws: WebSocket | null = null;
   private url: string;
-  private pingInterval: NodeJS.Timeout | null = null;
+  private state: ConnectionState = 'closed';
+  private reconnectPolicy: Required<ReconnectPolicy>;
   private reconnectAttempts: number = 0;
-  private maxReconnectAttempts: number = 5;
-  // private reconnectDelay: number = 5000;
-  private initialReconnectDelay: number = 1000;
-  private maxReconnectDelay: number = 30000;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private shouldReconnect: boolean = false;
+  private pingIntervalMs: number;
+  private pongTimeoutMs: number;
+  private pingInterval: ReturnType<typeof setInterval> | null = null;
+  private pongTimer: ReturnType<typeof setTimeout> | null = null;
+  private pauseCount: number = 0;
+  private heldFrames: unknown[] = [];
+  private pendingConnect: {
+    promise: Promise<void>;
+    resolve: () => void;
+    reject: (error: Error) => void;
+  } | null = null;
 
-  constructor(testnet: boolean = false) {
+  constructor(testnet: boolean = false, options: WebSocketClientOptions = {}) {
     super();
     this.url = testnet
       ? CONSTANTS.WSS_URLS.TESTNET
       : CONSTANTS.WSS_URLS.PRODUCTION;
+    this.reconnectPolicy = {
+      ...DEFAULT_RECONNECT_POLICY,
+      ...options.reconnect,
+    };
+    this.pingIntervalMs = options.pingIntervalMs ?? 15000;
+    this.pongTimeoutMs = options.pongTimeoutMs ?? 10000;
+  }
+
+  getState(): ConnectionState {
+    return this.state;
   }
 
+  private setState(state: ConnectionState): void {
+    const previous = this.state;
+    if (state === previous) {
+      return;
+    }
+    this.state = state;
+    this.emit('stateChange', state, previous);
+  }
+
+  // Resolves once the socket is open. Errors on the way are retried per the reconnect policy,
+  // it only rejects when the policy gives up or close() is called first.
   connect(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.ws = new WebSocket(this.url);
-
-      this.ws.onopen = () => {
-        console.log('WebSocket connected');
-        this.reconnectAttempts = 0;
-        this.startPingInterval();
-        resolve();
-      };
-
-      this.ws.onmessage = (data: any) => {
-        try {
-          const message = JSON.parse(data.data.toString());
-          this.emit('message', message);
-        } catch (error) {
-          console.error('JSON Parse error:');
-        }
-      };
-
-      this.ws.onerror = (error) => {
-        console.error('WebSocket error:', error);
-        reject(error);
-      };
-
-      this.ws.onclose = () => {
-        console.log('WebSocket disconnected');
-        this.stopPingInterval();
-        this.reconnect();
-      };
+    if (this.state === 'open') {
+      return Promise.resolve();
+    }
+    this.shouldReconnect = true;
+    if (this.pendingConnect) {
+      return this.pendingConnect.promise;
+    }
+
+    let resolve!: () => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<void>((res, rej) => {
+      resolve = res;
+      reject = rej;
     });
+    this.pendingConnect = { promise, resolve, reject };
+
+    if (this.state !== 'connecting' && this.state !== 'reconnecting') {
+      this.reconnectAttempts = 0;
+      this.setState('connecting');
+      this.openSocket();
+    }
+    return promise;
+  }
+
+  private settleConnect(error?: Error): void {
+    const pending = this.pendingConnect;
+    this.pendingConnect = null;
+    if (!pending) {
+      return;
+    }
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve();
+    }
+  }
+
+  private openSocket(): void {
+    const socket = new WebSocket(this.url);
+    this.ws = socket;
+
+    socket.onopen = () => {
+      if (this.ws !== socket) {
+        return;
+      }
+      this.reconnectAttempts = 0;
+      if (this.pauseCount > 0) {
+        pausableSocket(socket).pause?.();
+      }
+      this.setState('open');
+      this.startPingInterval();
+      this.emit('open');
+      this.settleConnect();
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      if (this.ws !== socket) {
+        return;
+      }
+      if (this.pauseCount > 0) {
+        this.heldFrames.push(event.data);
+        return;
+      }
+      this.handleFrame(event.data);
+    };
+
+    socket.onerror = (error) => {
+      if (this.ws !== socket) {
+        return;
+      }
+      this.emit('connectionError', error);
+    };
+
+    socket.onclose = () => {
+      this.handleSocketClosed(socket);
+    };
+  }
+
+  private handleFrame(data: unknown): void {
+    try {
+      const message = JSON.parse(String(data));
+      if (message.channel === 'pong') {
+        this.clearPongTimer();
+      }
+      this.emit('message', message);
+    } catch (error) {
+      this.emit('connectionError', error);
+    }
+  }
+
+  // Stops delivering messages until every pause() has been matched by a resume(). Frames that still
+  // arrive are held in order, and sockets that can pause reading (ws in Node) stop reading altogether,
+  // so the server is slowed down by TCP flow control instead of the messages piling up here.
+  pause(): void {
+    this.pauseCount++;
+    if (this.pauseCount === 1) {
+      // Pongs are held too, a paused connection must not be taken for a stalled one
+      this.clearPongTimer();
+      if (this.ws && this.isOpen()) {
+        pausableSocket(this.ws).pause?.();
+      }
+    }
+  }
+
+  resume(): void {
+    if (this.pauseCount === 0) {
+      return;
+    }
+    this.pauseCount--;
+    if (this.pauseCount > 0) {
+      return;
+    }
+    if (this.ws && this.isOpen()) {
+      pausableSocket(this.ws).resume?.();
+    }
+    // A listener may pause again while the held frames are delivered
+    while (this.pauseCount === 0 && this.heldFrames.length > 0) {
+      this.handleFrame(this.heldFrames.shift());
+    }
   }
 
-  private reconnect(): void {
-    if (this.reconnectAttempts < this.maxReconnectAttempts) {
-      this.reconnectAttempts++;
-      const delay = Math.min(
-        this.initialReconnectDelay * Math.pow(2, this.reconnectAttempts - 1),
-        this.maxReconnectDelay
-      );
-      setTimeout(() => this.connect(), delay);
+  isPaused(): boolean {
+    return this.pauseCount > 0;
+  }
+
+  private handleSocketClosed(socket: WebSocket): void {
+    if (this.ws !== socket) {
+      return;
+    }
+    this.ws = null;
+    this.stopPingInterval();
+    this.emit('close');
+    if (this.shouldReconnect) {
+      this.scheduleReconnect();
     } else {
+      this.setState('closed');
+    }
+  }
+
+  private scheduleReconnect(): void {
+    const { maxAttempts, initialDelayMs, maxDelayMs, jitter } =
+      this.reconnectPolicy;
+    if (this.reconnectAttempts >= maxAttempts) {
+      this.shouldReconnect = false;
+      this.setState('failed');
       this.emit('maxReconnectAttemptsReached');
+      this.settleConnect(new Error('WebSocket reconnect attempts exhausted'));
+      return;
     }
+    this.reconnectAttempts++;
+    const delay = Math.min(
+      initialDelayMs * Math.pow(2, this.reconnectAttempts - 1),
+      maxDelayMs
+    );
+    // Spread reconnects of many clients so they don't hit the server in lockstep
+    const jitteredDelay = Math.round(delay * (1 - jitter * Math.random()));
+    this.setState('reconnecting');
+    this.emit('reconnecting', this.reconnectAttempts, jitteredDelay);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSocket();
+    }, jitteredDelay);
   }
 
   private startPingInterval(): void {
+    this.stopPingInterval();
     this.pingInterval = setInterval(() => {
+      // A closing socket hasn't fired onclose yet, sending on it would throw inside the timer
+      if (!this.isOpen()) {
+        return;
+      }
       this.sendMessage({ method: 'ping' });
-    }, 15000); // Send ping every 15 seconds
+      if (this.pongTimer === null && this.pauseCount === 0) {
+        this.pongTimer = setTimeout(
+          () => this.handleStalled(),
+          this.pongTimeoutMs
+        );
+      }
+    }, this.pingIntervalMs);
   }
 
   private stopPingInterval(): void {
@@ -76,6 +280,30 @@ export class WebSocketClient extends EventEmitter {
       clearInterval(this.pingInterval);
       this.pingInterval = null;
     }
+    this.clearPongTimer();
+  }
+
+  private clearPongTimer(): void {
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    }
+  }
+
+  // No pong within pongTimeoutMs: the connection is dead even if the socket hasn't noticed yet
+  private handleStalled(): void {
+    this.pongTimer = null;
+    const socket = this.ws;
+    if (!socket) {
+      return;
+    }
+    this.emit('stalled');
+    this.handleSocketClosed(socket);
+    socket.close();
+  }
+
+  isOpen(): boolean {
+    return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
   }
 
   sendMessage(message: any): void {
@@ -85,11 +313,22 @@ export class WebSocketClient extends EventEmitter {
     this.ws.send(JSON.stringify(message));
   }
 
+  // Closes the socket and stops reconnecting. Listeners stay attached, so connect() can be called again.
   close(): void {
-    if (this.ws) {
-      this.ws.close();
+    this.shouldReconnect = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
     }
-    this.removeAllListeners();
     this.stopPingInterval();
+    this.heldFrames = [];
+    this.settleConnect(new Error('WebSocket closed'));
+    const socket = this.ws;
+    if (socket) {
+      this.handleSocketClosed(socket);
+      socket.close();
+    } else {
+      this.setState('closed');
+    }
   }
 }
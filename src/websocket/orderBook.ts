@@ -0,0 +1,211 @@
+import { EventEmitter } from 'events';
+
+import { InfoAPI } from '../rest/info';
+import { WebSocketSubscriptions } from './subscriptions';
+import { roundToDecimals } from '../utils/precision';
+import type {
+  L2Book,
+  L2BookOptions,
+  OrderBookEvents,
+  OrderBookLevel,
+  SubscriptionHandle,
+  WsBook,
+} from '../types';
+
+// Typed overloads for the events below, on top of EventEmitter's untyped ones
+export interface OrderBook {
+  on<E extends keyof OrderBookEvents>(
+    event: E,
+    listener: (...args: OrderBookEvents[E]) => void
+  ): this;
+  once<E extends keyof OrderBookEvents>(
+    event: E,
+    listener: (...args: OrderBookEvents[E]) => void
+  ): this;
+  off<E extends keyof OrderBookEvents>(
+    event: E,
+    listener: (...args: OrderBookEvents[E]) => void
+  ): this;
+  emit<E extends keyof OrderBookEvents>(
+    event: E,
+    ...args: OrderBookEvents[E]
+  ): boolean;
+}
+
+function toLevels(
+  levels: Array<{ px: any; sz: any; n: number }>
+): OrderBookLevel[] {
+  return levels.map((level) => ({
+    px: Number(level.px),
+    sz: Number(level.sz),
+    n: level.n,
+  }));
+}
+
+// Local copy of a coin's L2 book, seeded over REST and kept current by the l2Book subscription.
+// Bids are sorted best (highest) first and asks best (lowest) first, as the exchange sends them.
+// Prices and sizes carry at most 8 decimals, so sums are rounded there to drop float noise.
+export class OrderBook extends EventEmitter {
+  readonly coin: string;
+  private info: InfoAPI;
+  private subscriptions: WebSocketSubscriptions;
+  private options: L2BookOptions;
+  private handle: SubscriptionHandle | null = null;
+  private bids: OrderBookLevel[] = [];
+  private asks: OrderBookLevel[] = [];
+  private time: number = 0;
+
+  constructor(
+    coin: string,
+    info: InfoAPI,
+    subscriptions: WebSocketSubscriptions,
+    options: L2BookOptions = {}
+  ) {
+    super();
+    this.coin = coin;
+    this.info = info;
+    this.subscriptions = subscriptions;
+    this.options = options;
+  }
+
+  // Subscribes first so no update falls between the REST snapshot and the stream, then seeds the book
+  async start(): Promise<void> {
+    if (this.handle) {
+      return;
+    }
+    this.handle = await this.subscriptions.subscribeToL2Book(
+      this.coin,
+      (book) => this.update(book),
+      this.options
+    );
+    // The caller never gets a book whose seed failed, so nothing else could end its subscription
+    try {
+      this.update(await this.info.getL2Book(this.coin, false, this.options));
+    } catch (error) {
+      await this.stop();
+      throw error;
+    }
+  }
+
+  async stop(): Promise<void> {
+    const handle = this.handle;
+    this.handle = null;
+    await handle?.unsubscribe();
+  }
+
+  // Replaces the book with a snapshot, ignoring ones older than what it already holds
+  update(book: L2Book | WsBook): void {
+    if (book.time < this.time) {
+      return;
+    }
+    this.time = book.time;
+    this.bids = toLevels(book.levels[0]);
+    this.asks = toLevels(book.levels[1]);
+    this.emit('change', this);
+  }
+
+  getTime(): number {
+    return this.time;
+  }
+
+  getBids(): readonly OrderBookLevel[] {
+    return this.bids;
+  }
+
+  getAsks(): readonly OrderBookLevel[] {
+    return this.asks;
+  }
+
+  getBestBid(): OrderBookLevel | null {
+    return this.bids[0] ?? null;
+  }
+
+  getBestAsk(): OrderBookLevel | null {
+    return this.asks[0] ?? null;
+  }
+
+  getSpread(): number | null {
+    const bid = this.getBestBid();
+    const ask = this.getBestAsk();
+    return bid && ask ? roundToDecimals(ask.px - bid.px, 8) : null;
+  }
+
+  getMid(): number | null {
+    const bid = this.getBestBid();
+    const ask = this.getBestAsk();
+    return bid && ask ? roundToDecimals((bid.px + ask.px) / 2, 9) : null;
+  }
+
+  // Size a taker can fill before the price gets worse than px: asks up to px when buying, bids down to px when selling
+  getDepth(isBuy: boolean, px: number): number {
+    let depth = 0;
+    for (const level of isBuy ? this.asks : this.bids) {
+      if (isBuy ? level.px > px : level.px < px) {
+        break;
+      }
+      depth = roundToDecimals(depth + level.sz, 8);
+    }
+    return depth;
+  }
+
+  // Walks the opposite side for sz, returning the average and the worst price reached, or null if the book is too thin
+  private fill(
+    isBuy: boolean,
+    sz: number
+  ): { vwap: number; impactPx: number } | null {
+    if (sz <= 0) {
+      return null;
+    }
+    let remaining = sz;
+    let notional = 0;
+    for (const level of isBuy ? this.asks : this.bids) {
+      if (level.sz >= remaining) {
+        notional += remaining * level.px;
+        return { vwap: notional / sz, impactPx: level.px };
+      }
+      notional += level.sz * level.px;
+      remaining -= level.sz;
+    }
+    return null;
+  }
+
+  // Average price of a market order for sz, null if the book can't fill it
+  getVwap(isBuy: boolean, sz: number): number | null {
+    return this.fill(isBuy, sz)?.vwap ?? null;
+  }
+
+  // Price of the last level a market order for sz would reach, null if the book can't fill it
+  getImpactPrice(isBuy: boolean, sz: number): number | null {
+    return this.fill(isBuy, sz)?.impactPx ?? null;
+  }
+
+  // Groups levels into buckets of bucketSize, bids rounded down and asks up so the sides never cross
+  aggregate(bucketSize: number): {
+    bids: OrderBookLevel[];
+    asks: OrderBookLevel[];
+  } {
+    if (!(bucketSize > 0)) {
+      throw new Error('bucketSize must be positive');
+    }
+    const group = (levels: OrderBookLevel[], roundUp: boolean) => {
+      const buckets: OrderBookLevel[] = [];
+      for (const level of levels) {
+        // Rounding the quotient first keeps 0.3 / 0.1 from flooring to 2
+        const quotient = roundToDecimals(level.px / bucketSize, 8);
+        const px = roundToDecimals(
+          (roundUp ? Math.ceil(quotient) : Math.floor(quotient)) * bucketSize,
+          8
+        );
+        const last = buckets[buckets.length - 1];
+        if (last && last.px === px) {
+          last.sz = roundToDecimals(last.sz + level.sz, 8);
+          last.n += level.n;
+        } else {
+          buckets.push({ ...level, px });
+        }
+      }
+      return buckets;
+    };
+    return { bids: group(this.bids, false), asks: group(this.asks, true) };
+  }
+}
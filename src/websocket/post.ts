@@ -0,0 +1,128 @@
+import { WebSocketClient } from './connection';
+import { HyperliquidAPIError } from '../utils/errors';
+
+// The server rejects post requests beyond this many in flight on one connection
+export const MAX_INFLIGHT_POSTS = 100;
+
+interface PendingPost {
+  resolve: (payload: any) => void;
+  reject: (error: HyperliquidAPIError) => void;
+  cleanup: () => void;
+}
+
+// Sends info and signed action requests over the socket's post channel, correlating responses by id
+export class WebSocketPostClient {
+  private ws: WebSocketClient;
+  private nextId: number = 1;
+  private pending: Map<number, PendingPost> = new Map();
+
+  constructor(ws: WebSocketClient) {
+    this.ws = ws;
+    this.ws.on('message', (message: any) => this.handleMessage(message));
+    // Responses never arrive on a new connection, so whatever is in flight fails with the old one
+    this.ws.on('close', () =>
+      this.rejectAll(
+        new HyperliquidAPIError(
+          'NETWORK_ERROR',
+          'WebSocket closed before the response was received'
+        )
+      )
+    );
+  }
+
+  // True when a post sent now would go out rather than being refused
+  isAvailable(): boolean {
+    return this.ws.isOpen() && this.pending.size < MAX_INFLIGHT_POSTS;
+  }
+
+  post(
+    type: 'info' | 'action',
+    payload: any,
+    timeout: number,
+    signal?: AbortSignal
+  ): Promise<any> {
+    if (signal?.aborted) {
+      return Promise.reject(
+        new HyperliquidAPIError('ABORTED', 'Request was aborted')
+      );
+    }
+    const id = this.nextId++;
+
+    const promise = new Promise<any>((resolve, reject) => {
+      const onAbort = () =>
+        this.settle(
+          id,
+          new HyperliquidAPIError('ABORTED', 'Request was aborted')
+        );
+      const timer = setTimeout(
+        () =>
+          this.settle(
+            id,
+            new HyperliquidAPIError(
+              'TIMEOUT',
+              `No response to post request ${id} within ${timeout}ms`
+            )
+          ),
+        timeout
+      );
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pending.set(id, {
+        resolve,
+        reject,
+        cleanup: () => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+        },
+      });
+    });
+
+    try {
+      this.ws.sendMessage({
+        method: 'post',
+        id,
+        request: { type, payload },
+      });
+    } catch (error) {
+      this.settle(
+        id,
+        new HyperliquidAPIError('NETWORK_ERROR', (error as Error).message)
+      );
+    }
+    return promise;
+  }
+
+  private handleMessage(message: any): void {
+    if (message?.channel !== 'post' || typeof message.data?.id !== 'number') {
+      return;
+    }
+    const { id, response } = message.data;
+    if (response?.type === 'error') {
+      this.settle(
+        id,
+        new HyperliquidAPIError('WS_POST_ERROR', String(response.payload))
+      );
+    } else {
+      this.settle(id, undefined, response?.payload);
+    }
+  }
+
+  private settle(id: number, error?: HyperliquidAPIError, payload?: any): void {
+    const pending = this.pending.get(id);
+    if (!pending) {
+      return;
+    }
+    this.pending.delete(id);
+    pending.cleanup();
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve(payload);
+    }
+  }
+
+  private rejectAll(error: HyperliquidAPIError): void {
+    for (const id of Array.from(this.pending.keys())) {
+      this.settle(id, error);
+    }
+  }
+}
@@ -0,0 +1,224 @@
+import { HyperliquidAPIError } from '../utils/errors';
+import type {
+  Observable,
+  Observer,
+  StreamOptions,
+  SubscriptionHandle,
+  Unsubscribable,
+} from '../types';
+
+// Any subscribeTo* call with its other arguments bound, e.g. (cb) => subscriptions.subscribeToTrades('BTC-PERP', cb)
+export type SubscribeFn<T> = (
+  callback: (data: T) => void
+) => Promise<SubscriptionHandle>;
+
+// Pulls subscription messages through a bounded buffer. A full buffer either drops its oldest message,
+// ends the stream with overflow 'error' once the buffered messages have been read, or with overflow
+// 'pause' pauses the subscription's connection until the consumer has read half of the buffer.
+class SubscriptionStream<T> implements AsyncIterableIterator<T> {
+  private subscribe: SubscribeFn<T>;
+  private bufferSize: number;
+  private overflow: 'dropOldest' | 'error' | 'pause';
+  private signal?: AbortSignal;
+  private buffer: T[] = [];
+  private handle: Promise<SubscriptionHandle> | null = null;
+  private waiter: {
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (error: unknown) => void;
+  } | null = null;
+  private error: unknown = null;
+  private done: boolean = false;
+  private paused: boolean = false;
+  private onAbort = () => {
+    this.fail(new HyperliquidAPIError('ABORTED', 'Stream was aborted'));
+  };
+
+  constructor(
+    subscribe: SubscribeFn<T>,
+    { bufferSize = 100, overflow = 'dropOldest', signal }: StreamOptions = {}
+  ) {
+    if (!(bufferSize >= 1)) {
+      throw new Error('bufferSize must be at least 1');
+    }
+    this.subscribe = subscribe;
+    this.bufferSize = bufferSize;
+    this.overflow = overflow;
+    this.signal = signal;
+    if (signal?.aborted) {
+      this.onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', this.onAbort, { once: true });
+    this.start();
+  }
+
+  private start(): void {
+    const handle = this.subscribe((data) => this.push(data));
+    this.handle = handle;
+    handle.catch((error) => this.fail(error));
+  }
+
+  private withHandle(action: (subscription: SubscriptionHandle) => void): void {
+    // A failed subscribe is already handled in start()
+    this.handle?.then(action).catch(() => undefined);
+  }
+
+  private stop(): void {
+    const handle = this.handle;
+    this.handle = null;
+    // A failed server unsubscribe is already reported as the socket's subscriptionError
+    handle
+      ?.then((subscription) => subscription.unsubscribe())
+      .catch(() => undefined);
+  }
+
+  private push(data: T): void {
+    if (this.done) {
+      return;
+    }
+    if (this.waiter) {
+      const { resolve } = this.waiter;
+      this.waiter = null;
+      resolve({ value: data, done: false });
+      return;
+    }
+    if (this.overflow === 'pause') {
+      // Messages already on their way when the pause lands are still kept, nothing is dropped
+      this.buffer.push(data);
+      if (!this.paused && this.buffer.length >= this.bufferSize) {
+        this.paused = true;
+        this.withHandle((subscription) => subscription.pause());
+      }
+    } else if (this.buffer.length < this.bufferSize) {
+      this.buffer.push(data);
+    } else if (this.overflow === 'dropOldest') {
+      this.buffer.shift();
+      this.buffer.push(data);
+    } else {
+      this.fail(
+        new HyperliquidAPIError(
+          'STREAM_OVERFLOW',
+          `More than ${this.bufferSize} messages were waiting to be read`
+        ),
+        true
+      );
+    }
+  }
+
+  private finish(): void {
+    if (this.done) {
+      return;
+    }
+    this.done = true;
+    this.signal?.removeEventListener('abort', this.onAbort);
+    this.stop();
+  }
+
+  // An overflow keeps what was buffered before it, the error is raised once those have been read
+  private fail(error: unknown, keepBuffered: boolean = false): void {
+    if (this.done) {
+      return;
+    }
+    this.error = error;
+    if (!keepBuffered) {
+      this.buffer = [];
+    }
+    this.finish();
+    if (this.waiter) {
+      const { reject } = this.waiter;
+      this.waiter = null;
+      reject(error);
+    }
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.buffer.length > 0) {
+      const value = this.buffer.shift() as T;
+      if (this.paused && this.buffer.length <= this.bufferSize / 2) {
+        this.paused = false;
+        this.withHandle((subscription) => subscription.resume());
+      }
+      return Promise.resolve({ value, done: false });
+    }
+    if (this.error !== null) {
+      return Promise.reject(this.error);
+    }
+    if (this.done) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  // Called when a for await loop exits early, ends the server subscription
+  return(): Promise<IteratorResult<T>> {
+    this.buffer = [];
+    this.finish();
+    if (this.waiter) {
+      const { resolve } = this.waiter;
+      this.waiter = null;
+      resolve({ value: undefined, done: true });
+    }
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    return this;
+  }
+}
+
+// Subscribes right away so nothing is missed before the first read, stop with break, return() or the signal
+export function toAsyncIterable<T>(
+  subscribe: SubscribeFn<T>,
+  options: StreamOptions = {}
+): AsyncIterableIterator<T> {
+  return new SubscriptionStream(subscribe, options);
+}
+
+// RxJS and other libraries find interop observables under Symbol.observable, or '@@observable' without it
+const observableKey: symbol | string =
+  typeof Symbol === 'function' &&
+  'observable' in Symbol &&
+  typeof Symbol.observable === 'symbol'
+    ? Symbol.observable
+    : '@@observable';
+
+// Minimal observable: each subscribe() makes its own subscription, ended by unsubscribe()
+export function toObservable<T>(subscribe: SubscribeFn<T>): Observable<T> {
+  const observable: Observable<T> & Record<string | symbol, unknown> = {
+    subscribe(
+      observerOrNext: Partial<Observer<T>> | ((value: T) => void)
+    ): Unsubscribable {
+      const observer =
+        typeof observerOrNext === 'function'
+          ? { next: observerOrNext }
+          : observerOrNext;
+      let closed = false;
+      const handle = subscribe((data) => {
+        if (!closed) {
+          observer.next?.(data);
+        }
+      });
+      handle.catch((error) => {
+        if (!closed) {
+          closed = true;
+          observer.error?.(error);
+        }
+      });
+      return {
+        unsubscribe() {
+          if (closed) {
+            return;
+          }
+          closed = true;
+          handle
+            .then((subscription) => subscription.unsubscribe())
+            .catch(() => undefined);
+        },
+      };
+    },
+  };
+  observable[observableKey] = () => observable;
+  return observable;
+}
@@ -1,4 +1,5 @@
 import { WebSocketClient } from './connection';
+import { WebSocketPostClient } from './post';
 import type {
   AllMids,
   WsBook,
@@ -12,380 +13,719 @@ import type {
   WsUserNonFundingLedgerUpdates,
   WsActiveAssetData,
   WsActiveAssetCtx,
+  WsActiveAssetCtxFor,
+  WsBbo,
   WsUserHistoricalOrders,
+  WsUserTwapSliceFills,
+  WsSubscription,
+  SubscriptionHandle,
+  ResyncEvent,
+  L2BookOptions,
 } from '../types/index';
 import { SymbolConversion } from '../utils/symbolConversion';
+import { l2BookAggregation } from '../utils/helpers';
+
+// Channels whose name differs from the subscription type they answer
+const CHANNEL_SUBSCRIPTION_TYPES: { [channel: string]: string } = {
+  user: 'userEvents',
+  activeSpotAssetCtx: 'activeAssetCtx',
+};
+
+interface SubscriptionListener {
+  callback: (data: any) => void;
+}
+
+interface SubscriptionEntry {
+  subscription: WsSubscription;
+  transform: (message: any) => Promise<any>;
+  listeners: Set<SubscriptionListener>;
+  // Set when the subscription was replayed after a reconnect, until its first message arrives
+  resyncPending: boolean;
+}
+
+function sameAddress(a: unknown, b: unknown): boolean {
+  return (
+    typeof a === 'string' &&
+    typeof b === 'string' &&
+    a.toLowerCase() === b.toLowerCase()
+  );
+}
+
+// Whether a message on the subscription's channel belongs to it. Channels whose data doesn't
+// identify the subscription, such as orderUpdates, reach every subscription of that type.
+function matchesSubscription(subscription: WsSubscription, data: any): boolean {
+  switch (subscription.type) {
+    case 'l2Book':
+    case 'bbo':
+    case 'activeAssetCtx':
+      return data?.coin === subscription.coin;
+    case 'trades':
+      return Array.isArray(data) && data[0]?.coin === subscription.coin;
+    case 'candle':
+      return data?.s === subscription.coin && data?.i === subscription.interval;
+    case 'activeAssetData':
+      return (
+        data?.coin === subscription.coin &&
+        sameAddress(data?.user, subscription.user)
+      );
+    default:
+      return data?.user === undefined || subscription.user === undefined
+        ? true
+        : sameAddress(data.user, subscription.user);
+  }
+}
+
+// l2Book messages don't say which aggregation they carry, so each one gets its own connection
+interface AggregationLane {
+  ws: WebSocketClient;
+  subscriptions: WebSocketSubscriptions;
+}
+
+function subscriptionKey(subscription: WsSubscription): string {
+  return JSON.stringify(
+    Object.keys(subscription)
+      .sort()
+      .map((key) => [
+        key,
+        key === 'user' && typeof subscription.user === 'string'
+          ? subscription.user.toLowerCase()
+          : subscription[key],
+      ])
+  );
+}
 
 export class WebSocketSubscriptions {
   private ws: WebSocketClient;
   private symbolConversion: SymbolConversion;
-
-  constructor(ws: WebSocketClient, symbolConversion: SymbolConversion) {
+  private postClient: WebSocketPostClient;
+  private entries: Map<string, SubscriptionEntry> = new Map();
+  private disconnectedAt: number | null = null;
+  private resyncListeners: Set<(event: ResyncEvent) => void> = new Set();
+  private createConnection: (() => WebSocketClient) | null;
+  private lanes: Map<string, AggregationLane> = new Map();
+
+  constructor(
+    ws: WebSocketClient,
+    symbolConversion: SymbolConversion,
+    postClient: WebSocketPostClient = new WebSocketPostClient(ws),
+    createConnection: (() => WebSocketClient) | null = null
+  ) {
     this.ws = ws;
     this.symbolConversion = symbolConversion;
+    this.postClient = postClient;
+    this.createConnection = createConnection;
+    this.ws.on('close', () => {
+      this.disconnectedAt ??= Date.now();
+    });
+    this.ws.on('open', () => {
+      this.restoreSubscriptions();
+      for (const lane of this.lanes.values()) {
+        this.connectLane(lane);
+      }
+    });
+    // Lanes follow the main socket: they stop when it is closed or gives up
+    this.ws.on('stateChange', (state) => {
+      if (state === 'closed' || state === 'failed') {
+        for (const lane of this.lanes.values()) {
+          lane.ws.close();
+        }
+      }
+    });
+    this.ws.on('message', (message: any) => {
+      this.dispatch(message).catch((error) => this.reportError(error));
+    });
   }
 
-  private async subscribe(subscription: {
-    type: string;
-    [key: string]: any;
-  }): Promise<void> {
+  // Failures no caller can catch, such as a throwing callback or a failed replay, surface as subscriptionError
+  private reportError(error: unknown, subscription?: WsSubscription): void {
+    this.ws.emit('subscriptionError', error, subscription);
+  }
+
+  private async subscribe(subscription: WsSubscription): Promise<void> {
     await this.ws.sendMessage({
       method: 'subscribe',
       subscription: subscription,
     });
   }
 
-  private async unsubscribe(subscription: {
-    type: string;
-    [key: string]: any;
-  }): Promise<void> {
+  private async unsubscribe(subscription: WsSubscription): Promise<void> {
+    // A closed socket has no server subscriptions left to end
+    if (!this.ws.isOpen()) {
+      return;
+    }
     await this.ws.sendMessage({
       method: 'unsubscribe',
       subscription: subscription,
     });
   }
 
-  // private handleMessage(message: any, callback: (data: any) => void, channel: string, additionalChecks: (data: any) => boolean = () => true) {
-  //     if (typeof message !== 'object' || message === null) {
-  //         console.warn('Received invalid message format:', message);
-  //         return;
-  //     }
+  // Replays every subscription on a new socket, the server forgets them when the connection drops
+  private restoreSubscriptions(): void {
+    const disconnectedAt = this.disconnectedAt;
+    this.disconnectedAt = null;
+    const subscriptions: WsSubscription[] = [];
+    for (const entry of this.entries.values()) {
+      entry.resyncPending = disconnectedAt !== null;
+      subscriptions.push(entry.subscription);
+      this.subscribe(entry.subscription).catch((error) =>
+        this.reportError(error, entry.subscription)
+      );
+    }
+    if (disconnectedAt === null) {
+      return;
+    }
+    const resyncedAt = Date.now();
+    const event: ResyncEvent = {
+      disconnectedAt,
+      resyncedAt,
+      gapMs: resyncedAt - disconnectedAt,
+      subscriptions,
+    };
+    for (const listener of this.resyncListeners) {
+      listener(event);
+    }
+  }
+
+  // Called after a reconnect once subscriptions are replayed, with the window in which updates may have been missed.
+  // Snapshots delivered afterwards carry isResync so they can be reconciled with local state.
+  onResync(callback: (event: ResyncEvent) => void): () => void {
+    this.resyncListeners.add(callback);
+    return () => {
+      this.resyncListeners.delete(callback);
+    };
+  }
 
-  //     let data = message.data || message;
-  //     if (data.channel === channel && additionalChecks(data)) {
-  //         const convertedData = this.symbolConversion.convertSymbolsInObject(data);
-  //         callback(convertedData);
-  //     }
-  // }
+  // The single message listener, routes each message to the subscriptions it belongs to
+  private async dispatch(message: any): Promise<void> {
+    if (typeof message !== 'object' || message === null || !message.channel) {
+      return;
+    }
+    const type = CHANNEL_SUBSCRIPTION_TYPES[message.channel] ?? message.channel;
+    for (const entry of this.entries.values()) {
+      if (
+        entry.subscription.type !== type ||
+        !matchesSubscription(entry.subscription, message.data)
+      ) {
+        continue;
+      }
+      let data;
+      try {
+        data = await entry.transform(message);
+      } catch (error) {
+        this.reportError(error, entry.subscription);
+        continue;
+      }
+      if (data === undefined) {
+        continue;
+      }
+      if (entry.resyncPending) {
+        entry.resyncPending = false;
+        if (data?.isSnapshot) {
+          data = { ...data, isResync: true };
+        }
+      }
+      for (const listener of entry.listeners) {
+        // One failing callback must not keep the message from the others
+        try {
+          listener.callback(data);
+        } catch (error) {
+          this.reportError(error, entry.subscription);
+        }
+      }
+    }
+  }
 
-  async subscribeToAllMids(callback: (data: AllMids) => void): Promise<void> {
+  // Registers a callback, sharing one server subscription between all callbacks with the same identity
+  private async addSubscription(
+    subscription: WsSubscription,
+    callback: (data: any) => void,
+    transform: (message: any) => Promise<any> = async (message) =>
+      (await this.symbolConversion.convertSymbolsInObject(message)).data
+  ): Promise<SubscriptionHandle> {
     if (typeof callback !== 'function') {
       throw new Error('Callback must be a function');
     }
-    this.subscribe({ type: 'allMids' });
-
-    this.ws.on('message', async (message: any) => {
-      if (message.channel === 'allMids') {
-        if (message.data.mids) {
-          const convertedData: AllMids = {};
-          for (const [key, value] of Object.entries(message.data.mids)) {
-            const convertedKey = await this.symbolConversion.convertSymbol(key);
-            const convertedValue = this.symbolConversion.convertToNumber(value);
-            convertedData[convertedKey] = convertedValue;
+    const key = subscriptionKey(subscription);
+    const listener: SubscriptionListener = { callback };
+    let entry = this.entries.get(key);
+    if (entry) {
+      entry.listeners.add(listener);
+    } else {
+      entry = {
+        subscription,
+        transform,
+        listeners: new Set([listener]),
+        resyncPending: false,
+      };
+      this.entries.set(key, entry);
+      // Before connect() or during a reconnect the subscription is sent once the socket opens
+      if (this.ws.isOpen()) {
+        try {
+          await this.subscribe(subscription);
+        } catch (error) {
+          this.entries.delete(key);
+          throw error;
+        }
+      }
+    }
+
+    const subscribedEntry = entry;
+    let paused = false;
+    const resume = () => {
+      if (paused) {
+        paused = false;
+        this.ws.resume();
+      }
+    };
+    return {
+      subscription,
+      // Pausing holds every message of the connection this subscription lives on, not just its own
+      pause: () => {
+        if (!paused && subscribedEntry.listeners.has(listener)) {
+          paused = true;
+          this.ws.pause();
+        }
+      },
+      resume,
+      unsubscribe: async () => {
+        resume();
+        if (!subscribedEntry.listeners.delete(listener)) {
+          return;
+        }
+        if (
+          subscribedEntry.listeners.size === 0 &&
+          this.entries.get(key) === subscribedEntry
+        ) {
+          this.entries.delete(key);
+          try {
+            // The server knows it by the first caller's spelling, e.g. of the user address
+            await this.unsubscribe(subscribedEntry.subscription);
+          } catch (error) {
+            // Reported here too since streams and observables end handles without awaiting them
+            this.reportError(error, subscribedEntry.subscription);
+            throw error;
           }
-          callback(convertedData);
         }
+      },
+    };
+  }
+
+  // Drops every callback of a subscription and the server subscription itself
+  private async removeSubscription(
+    subscription: WsSubscription
+  ): Promise<void> {
+    this.entries.delete(subscriptionKey(subscription));
+    await this.unsubscribe(subscription);
+  }
+
+  private connectLane(lane: AggregationLane): void {
+    lane.ws.connect().catch((error) => {
+      // close() rejects a pending connect too, only a lane that gave up is worth reporting
+      if (lane.ws.getState() === 'failed') {
+        this.reportError(error);
       }
     });
   }
 
+  // The connection carrying l2Book subscriptions with this aggregation, opened on first use
+  private getLane(key: string): AggregationLane {
+    let lane = this.lanes.get(key);
+    if (lane) {
+      return lane;
+    }
+    if (!this.createConnection) {
+      throw new Error(
+        'Aggregated l2Book subscriptions need a connection factory'
+      );
+    }
+    const ws = this.createConnection();
+    ws.on('subscriptionError', (error, subscription) =>
+      this.reportError(error, subscription)
+    );
+    lane = {
+      ws,
+      subscriptions: new WebSocketSubscriptions(ws, this.symbolConversion),
+    };
+    lane.subscriptions.onResync((event) => {
+      for (const listener of this.resyncListeners) {
+        listener(event);
+      }
+    });
+    this.lanes.set(key, lane);
+    if (this.ws.isOpen()) {
+      this.connectLane(lane);
+    }
+    return lane;
+  }
+
+  private closeLaneIfUnused(key: string): void {
+    const lane = this.lanes.get(key);
+    if (lane && lane.subscriptions.entries.size === 0) {
+      this.lanes.delete(key);
+      lane.ws.close();
+    }
+  }
+
+  private async toExchangeCoin(coin: string): Promise<string> {
+    return this.symbolConversion.convertSymbol(coin, 'reverse');
+  }
+
+  async subscribeToAllMids(
+    callback: (data: AllMids) => void
+  ): Promise<SubscriptionHandle> {
+    return this.addSubscription(
+      { type: 'allMids' },
+      callback,
+      async (message: any) => {
+        if (!message.data.mids) {
+          return undefined;
+        }
+        const convertedData: AllMids = {};
+        for (const [key, value] of Object.entries(message.data.mids)) {
+          const convertedKey = await this.symbolConversion.convertSymbol(key);
+          const convertedValue = this.symbolConversion.convertToNumber(value);
+          convertedData[convertedKey] = convertedValue;
+        }
+        return convertedData;
+      }
+    );
+  }
+
   async subscribeToNotification(
     user: string,
     callback: (data: Notification & { user: string }) => void
-  ): Promise<void> {
-    this.subscribe({ type: 'notification', user: user });
-    this.ws.on('message', async (message: any) => {
-      if (message.channel === 'notification') {
-        message = await this.symbolConversion.convertSymbolsInObject(message);
-        callback(message.data);
-      }
-    });
+  ): Promise<SubscriptionHandle> {
+    return this.addSubscription({ type: 'notification', user: user }, callback);
   }
 
   async subscribeToWebData2(
     user: string,
     callback: (data: WebData2) => void
-  ): Promise<void> {
-    this.subscribe({ type: 'webData2', user: user });
-    this.ws.on('message', async (message: any) => {
-      if (message.channel === 'webData2') {
-        message = await this.symbolConversion.convertSymbolsInObject(message);
-        callback(message.data);
-      }
-    });
+  ): Promise<SubscriptionHandle> {
+    return this.addSubscription({ type: 'webData2', user: user }, callback);
   }
 
   async subscribeToCandle(
     coin: string,
     interval: string,
     callback: (data: Candle[] & { coin: string; interval: string }) => void
-  ): Promise<void> {
-    const convertedCoin = await this.symbolConversion.convertSymbol(
-      coin,
-      'reverse'
+  ): Promise<SubscriptionHandle> {
+    const convertedCoin = await this.toExchangeCoin(coin);
+    return this.addSubscription(
+      { type: 'candle', coin: convertedCoin, interval: interval },
+      callback,
+      async (message: any) =>
+        (await this.symbolConversion.convertSymbolsInObject(message, ['s']))
+          .data
     );
-    this.subscribe({ type: 'candle', coin: convertedCoin, interval: interval });
-    this.ws.on('message', async (message: any) => {
-      if (
-        message.channel === 'candle' &&
-        message.data.s === convertedCoin &&
-        message.data.i === interval
-      ) {
-        message = await this.symbolConversion.convertSymbolsInObject(message, [
-          's',
-        ]);
-        callback(message.data);
-      }
-    });
   }
 
+  // Without nSigFigs the full book is sent, with it the server aggregates levels to that many significant figures
   async subscribeToL2Book(
     coin: string,
-    callback: (data: WsBook & { coin: string }) => void
-  ): Promise<void> {
-    const convertedCoin = await this.symbolConversion.convertSymbol(
-      coin,
-      'reverse'
+    callback: (data: WsBook & { coin: string }) => void,
+    options: L2BookOptions = {}
+  ): Promise<SubscriptionHandle> {
+    const aggregation = l2BookAggregation(options);
+    const { nSigFigs = null, mantissa = null } = aggregation;
+    const subscription: WsSubscription = {
+      type: 'l2Book',
+      coin: await this.toExchangeCoin(coin),
+      ...aggregation,
+    };
+    const transform = async (message: any) =>
+      (await this.symbolConversion.convertSymbolsInObject(message, ['coin']))
+        .data;
+    if (nSigFigs === null) {
+      return this.addSubscription(subscription, callback, transform);
+    }
+
+    const laneKey = `${nSigFigs}:${mantissa ?? ''}`;
+    const handle = await this.getLane(laneKey).subscriptions.addSubscription(
+      subscription,
+      callback,
+      transform
     );
-    this.subscribe({ type: 'l2Book', coin: convertedCoin });
-    this.ws.on('message', async (message: any) => {
-      if (message.channel === 'l2Book' && message.data.coin === convertedCoin) {
-        message = await this.symbolConversion.convertSymbolsInObject(message, [
-          'coin',
-        ]);
-        callback(message.data);
-      }
-    });
+    return {
+      ...handle,
+      unsubscribe: async () => {
+        await handle.unsubscribe();
+        this.closeLaneIfUnused(laneKey);
+      },
+    };
   }
 
   async subscribeToTrades(
     coin: string,
     callback: (data: any) => void
-  ): Promise<void> {
-    const convertedCoin = await this.symbolConversion.convertSymbol(
-      coin,
-      'reverse'
+  ): Promise<SubscriptionHandle> {
+    const convertedCoin = await this.toExchangeCoin(coin);
+    return this.addSubscription(
+      { type: 'trades', coin: convertedCoin },
+      callback,
+      async (message: any) =>
+        (await this.symbolConversion.convertSymbolsInObject(message, ['coin']))
+          .data
+    );
+  }
+
+  // Top of book only, far lighter than an l2Book subscription when many coins are watched
+  async subscribeToBbo(
+    coin: string,
+    callback: (data: WsBbo) => void
+  ): Promise<SubscriptionHandle> {
+    const convertedCoin = await this.toExchangeCoin(coin);
+    return this.addSubscription(
+      { type: 'bbo', coin: convertedCoin },
+      callback,
+      async (message: any) =>
+        (await this.symbolConversion.convertSymbolsInObject(message, ['coin']))
+          .data
     );
-    this.subscribe({ type: 'trades', coin: convertedCoin });
-    this.ws.on('message', async (message: any) => {
-      if (
-        message.channel === 'trades' &&
-        message.data[0].coin === convertedCoin
-      ) {
-        message = await this.symbolConversion.convertSymbolsInObject(message, [
-          'coin',
-        ]);
-        callback(message.data);
-      }
-    });
   }
 
   async subscribeToOrderUpdates(
     user: string,
     callback: (data: WsOrder[] & { user: string }) => void
-  ): Promise<void> {
-    this.subscribe({ type: 'orderUpdates', user: user });
-    this.ws.on('message', async (message: any) => {
-      if (message.channel === 'orderUpdates') {
-        message = await this.symbolConversion.convertSymbolsInObject(message);
-        callback(message.data);
-      }
-    });
+  ): Promise<SubscriptionHandle> {
+    return this.addSubscription({ type: 'orderUpdates', user: user }, callback);
   }
 
   async subscribeToUserEvents(
     user: string,
     callback: (data: WsUserEvent & { user: string }) => void
-  ): Promise<void> {
-    this.subscribe({ type: 'userEvents', user: user });
-    this.ws.on('message', async (message: any) => {
-      if (message.channel === 'userEvents') {
-        message = await this.symbolConversion.convertSymbolsInObject(message);
-        callback(message.data);
-      }
-    });
+  ): Promise<SubscriptionHandle> {
+    return this.addSubscription({ type: 'userEvents', user: user }, callback);
   }
 
   async subscribeToUserFills(
     user: string,
     callback: (data: WsUserFills & { user: string }) => void
-  ): Promise<void> {
-    this.subscribe({ type: 'userFills', user: user });
-    this.ws.on('message', async (message: any) => {
-      if (message.channel === 'userFills') {
-        message = await this.symbolConversion.convertSymbolsInObject(message);
-        callback(message.data);
-      }
-    });
+  ): Promise<SubscriptionHandle> {
+    return this.addSubscription({ type: 'userFills', user: user }, callback);
   }
 
   async subscribeToUserFundings(
     user: string,
     callback: (data: WsUserFundings & { user: string }) => void
-  ): Promise<void> {
-    this.subscribe({ type: 'userFundings', user: user });
-    this.ws.on('message', async (message: any) => {
-      if (message.channel === 'userFundings') {
-        message = await this.symbolConversion.convertSymbolsInObject(message);
-        callback(message.data);
-      }
-    });
+  ): Promise<SubscriptionHandle> {
+    return this.addSubscription({ type: 'userFundings', user: user }, callback);
+  }
+
+  async subscribeToUserTwapSliceFills(
+    user: string,
+    callback: (data: WsUserTwapSliceFills) => void
+  ): Promise<SubscriptionHandle> {
+    return this.addSubscription(
+      { type: 'userTwapSliceFills', user: user },
+      callback
+    );
   }
 
   async subscribeToUserHistoricalOrders(
     user: string,
     callback: (data: WsUserHistoricalOrders & { user: string }) => void
-  ): Promise<void> {
-    this.subscribe({ type: 'userHistoricalOrders', user: user });
-    this.ws.on('message', async (message: any) => {
-      if (message.channel === 'userHistoricalOrders') {
-        message = await this.symbolConversion.convertSymbolsInObject(message);
-        callback(message.data);
-      }
-    });
+  ): Promise<SubscriptionHandle> {
+    return this.addSubscription(
+      { type: 'userHistoricalOrders', user: user },
+      callback
+    );
   }
 
   async subscribeToUserNonFundingLedgerUpdates(
     user: string,
     callback: (data: WsUserNonFundingLedgerUpdates & { user: string }) => void
-  ): Promise<void> {
-    this.subscribe({ type: 'userNonFundingLedgerUpdates', user: user });
-    this.ws.on('message', async (message: any) => {
-      if (message.channel === 'userNonFundingLedgerUpdates') {
-        message = await this.symbolConversion.convertSymbolsInObject(message);
-        callback(message.data);
-      }
-    });
+  ): Promise<SubscriptionHandle> {
+    return this.addSubscription(
+      { type: 'userNonFundingLedgerUpdates', user: user },
+      callback
+    );
   }
 
   async subscribeToActiveAssetData(
     user: string,
     coin: string,
     callback: (data: WsActiveAssetData & { user: string }) => void
-  ): Promise<void> {
-    this.subscribe({ type: 'activeAssetData', user: user, coin: coin });
-    this.ws.on('message', async (message: any) => {
-      if (message.channel === 'activeAssetData') {
-        message = await this.symbolConversion.convertSymbolsInObject(message);
-        callback(message.data);
-      }
-    });
+  ): Promise<SubscriptionHandle> {
+    const convertedCoin = await this.toExchangeCoin(coin);
+    return this.addSubscription(
+      { type: 'activeAssetData', user: user, coin: convertedCoin },
+      callback
+    );
   }
 
+  // Spot coins are answered on the activeSpotAssetCtx channel with a SpotAssetCtx, perps with an AssetCtx
+  async subscribeToActiveAssetCtx<C extends string>(
+    coin: C,
+    callback: (data: WsActiveAssetCtxFor<C>) => void
+  ): Promise<SubscriptionHandle> {
+    const convertedCoin = await this.toExchangeCoin(coin);
+    return this.addSubscription(
+      { type: 'activeAssetCtx', coin: convertedCoin },
+      callback,
+      async (message: any) =>
+        (await this.symbolConversion.convertSymbolsInObject(message, ['coin']))
+          .data
+    );
+  }
+
+  /** @deprecated Use subscribeToActiveAssetCtx, the server doesn't need a user */
   async subscribeActiveAssetCtx(
-    user: string,
+    _user: string,
     coin: string,
     callback: (data: WsActiveAssetCtx) => void
-  ): Promise<void> {
-    this.subscribe({ type: 'activeAssetCtx', user: user, coin: coin });
-    this.ws.on('message', async (message: any) => {
-      if (message.channel === 'activeAssetCtx') {
-        message = await this.symbolConversion.convertSymbolsInObject(message);
-        callback(message.data);
-      }
-    });
+  ): Promise<SubscriptionHandle> {
+    return this.subscribeToActiveAssetCtx(
+      coin,
+      callback as (data: WsActiveAssetCtxFor<string>) => void
+    );
   }
 
+  // Info payloads and responses use SDK symbols, action payloads are already signed and sent as is
   async postRequest(
     requestType: 'info' | 'action',
-    payload: any
+    payload: any,
+    timeout: number = 30000
   ): Promise<any> {
-    const id = Date.now();
+    if (requestType === 'action') {
+      return this.postClient.post(requestType, payload, timeout);
+    }
     const convertedPayload =
       await this.symbolConversion.convertSymbolsInObject(payload);
-
-    await this.ws.sendMessage({
-      method: 'post',
-      id: id,
-      request: {
-        type: requestType,
-        payload: convertedPayload,
-      },
-    });
-
-    return new Promise((resolve, reject) => {
-      const responseHandler = (message: any) => {
-        if (typeof message === 'object' && message !== null) {
-          const data = message.data || message;
-          if (data.channel === 'post' && data.id === id) {
-            this.ws.removeListener('message', responseHandler);
-            if (data.response && data.response.type === 'error') {
-              reject(new Error(data.response.payload));
-            } else {
-              const convertedResponse =
-                this.symbolConversion.convertSymbolsInObject(
-                  data.response ? data.response.payload : data
-                );
-              resolve(convertedResponse);
-            }
-          }
-        }
-      };
-
-      this.ws.on('message', responseHandler);
-
-      setTimeout(() => {
-        this.ws.removeListener('message', responseHandler);
-        reject(new Error('Request timeout'));
-      }, 30000);
-    });
+    const response = await this.postClient.post(
+      requestType,
+      convertedPayload,
+      timeout
+    );
+    return this.symbolConversion.convertSymbolsInObject(response);
   }
 
   async unsubscribeFromAllMids(): Promise<void> {
-    this.unsubscribe({ type: 'allMids' });
+    await this.removeSubscription({ type: 'allMids' });
   }
 
   async unsubscribeFromNotification(user: string): Promise<void> {
-    this.unsubscribe({ type: 'notification', user: user });
+    await this.removeSubscription({ type: 'notification', user: user });
   }
 
   async unsubscribeFromWebData2(user: string): Promise<void> {
-    this.unsubscribe({ type: 'webData2', user: user });
+    await this.removeSubscription({ type: 'webData2', user: user });
   }
 
   async unsubscribeFromCandle(coin: string, interval: string): Promise<void> {
-    this.unsubscribe({ type: 'candle', coin: coin, interval: interval });
+    await this.removeSubscription({
+      type: 'candle',
+      coin: await this.toExchangeCoin(coin),
+      interval: interval,
+    });
   }
 
-  async unsubscribeFromL2Book(coin: string): Promise<void> {
-    this.unsubscribe({ type: 'l2Book', coin: coin });
+  async unsubscribeFromL2Book(
+    coin: string,
+    options: L2BookOptions = {}
+  ): Promise<void> {
+    const aggregation = l2BookAggregation(options);
+    const { nSigFigs = null, mantissa = null } = aggregation;
+    const subscription: WsSubscription = {
+      type: 'l2Book',
+      coin: await this.toExchangeCoin(coin),
+      ...aggregation,
+    };
+    if (nSigFigs === null) {
+      await this.removeSubscription(subscription);
+      return;
+    }
+    const laneKey = `${nSigFigs}:${mantissa ?? ''}`;
+    const lane = this.lanes.get(laneKey);
+    if (lane) {
+      await lane.subscriptions.removeSubscription(subscription);
+      this.closeLaneIfUnused(laneKey);
+    }
   }
 
   async unsubscribeFromTrades(coin: string): Promise<void> {
-    this.unsubscribe({ type: 'trades', coin: coin });
+    await this.removeSubscription({
+      type: 'trades',
+      coin: await this.toExchangeCoin(coin),
+    });
   }
 
   async unsubscribeFromOrderUpdates(user: string): Promise<void> {
-    this.unsubscribe({ type: 'orderUpdates', user: user });
+    await this.removeSubscription({ type: 'orderUpdates', user: user });
   }
 
   async unsubscribeFromUserEvents(user: string): Promise<void> {
-    this.unsubscribe({ type: 'userEvents', user: user });
+    await this.removeSubscription({ type: 'userEvents', user: user });
   }
 
   async unsubscribeFromUserFills(user: string): Promise<void> {
-    this.unsubscribe({ type: 'userFills', user: user });
+    await this.removeSubscription({ type: 'userFills', user: user });
   }
 
   async unsubscribeFromUserFundings(user: string): Promise<void> {
-    this.unsubscribe({ type: 'userFundings', user: user });
+    await this.removeSubscription({ type: 'userFundings', user: user });
+  }
+
+  async unsubscribeFromUserTwapSliceFills(user: string): Promise<void> {
+    await this.removeSubscription({ type: 'userTwapSliceFills', user: user });
   }
 
   async unsubscribeFromUserNonFundingLedgerUpdates(
     user: string
   ): Promise<void> {
-    this.unsubscribe({ type: 'userNonFundingLedgerUpdates', user: user });
+    await this.removeSubscription({
+      type: 'userNonFundingLedgerUpdates',
+      user: user,
+    });
   }
 
   async unsubscribeFromActiveAssetData(
     user: string,
     coin: string
   ): Promise<void> {
-    this.unsubscribe({ type: 'activeAssetData', user: user, coin: coin });
+    await this.removeSubscription({
+      type: 'activeAssetData',
+      user: user,
+      coin: await this.toExchangeCoin(coin),
+    });
   }
 
+  // The (user, coin) form is deprecated, activeAssetCtx subscriptions have no user
   async unsubscribeFromActiveAssetCtx(
-    user: string,
-    coin: string
+    userOrCoin: string,
+    coin?: string
   ): Promise<void> {
-    this.unsubscribe({ type: 'activeAssetCtx', user: user, coin: coin });
+    await this.removeSubscription({
+      type: 'activeAssetCtx',
+      coin: await this.toExchangeCoin(coin ?? userOrCoin),
+    });
+  }
+
+  async unsubscribeFromBbo(coin: string): Promise<void> {
+    await this.removeSubscription({
+      type: 'bbo',
+      coin: await this.toExchangeCoin(coin),
+    });
   }
 
   async unsubscribeFromUserHistoricalOrders(user: string): Promise<void> {
-    this.unsubscribe({ type: 'userHistoricalOrders', user: user });
+    await this.removeSubscription({ type: 'userHistoricalOrders', user: user });
   }
 
+  // Ends every server subscription made through this instance
   async unsubscribeFromAll(): Promise<void> {
-    this.unsubscribe({ type: 'all' });
+    const subscriptions = [...this.entries.values()].map(
+      (entry) => entry.subscription
+    );
+    this.entries.clear();
+    const lanes = [...this.lanes.values()];
+    this.lanes.clear();
+    await Promise.all([
+      ...subscriptions.map((subscription) => this.unsubscribe(subscription)),
+      ...lanes.map(async (lane) => {
+        await lane.subscriptions.unsubscribeFromAll();
+        lane.ws.close();
+      }),
+    ]);
   }
 }